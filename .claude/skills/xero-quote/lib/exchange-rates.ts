@@ -0,0 +1,60 @@
+/**
+ * Exchange Rates - Reads the local rates file used to preview foreign-currency quotes
+ *
+ * The file is JSON, with each rate giving the value of one unit of that
+ * currency in the base currency:
+ *
+ *   { "base": "SGD", "date": "2025-11-06", "rates": { "USD": 1.35, "AUD": 0.88 } }
+ *
+ * The rates are only used for the summary's base-currency preview. Xero applies
+ * its own daily rate when the quote is created.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ExchangeRates } from './quote-mapper.js';
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Load the rates from XERO_EXCHANGE_RATES_PATH (default ./exchange-rates.json).
+ * Returns null when there is no rates file, since the preview is optional.
+ */
+export async function loadExchangeRates(
+  filePath = process.env.XERO_EXCHANGE_RATES_PATH || path.join(process.cwd(), 'exchange-rates.json')
+): Promise<ExchangeRates | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch (error: any) {
+    throw new Error(`Exchange rates file ${filePath} is not valid JSON: ${error.message}`);
+  }
+
+  const base = String(data?.base ?? '').toUpperCase();
+  if (!CURRENCY_PATTERN.test(base)) {
+    throw new Error(`Exchange rates file ${filePath} needs a "base" currency code such as "SGD"`);
+  }
+  if (!data.rates || typeof data.rates !== 'object' || Array.isArray(data.rates)) {
+    throw new Error(`Exchange rates file ${filePath} needs a "rates" object such as {"USD": 1.35}`);
+  }
+
+  const rates: Record<string, number> = {};
+  for (const [code, rate] of Object.entries(data.rates)) {
+    if (!CURRENCY_PATTERN.test(code.toUpperCase()) || typeof rate !== 'number' || !(rate > 0)) {
+      throw new Error(`Exchange rates file ${filePath} has an invalid rate for "${code}" - use a positive number`);
+    }
+    rates[code.toUpperCase()] = rate;
+  }
+
+  return { base, rates, date: typeof data.date === 'string' ? data.date : undefined };
+}
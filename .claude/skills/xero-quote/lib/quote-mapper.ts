@@ -0,0 +1,803 @@
+/**
+ * Quote Mapper - Validates parsed quote details and maps them to Xero's Quote model
+ *
+ * Claude turns a description like "10 consulting hours at $150/hour" into a
+ * ParsedQuoteInput. This module checks it, builds the xero-node Quote (or
+ * Invoice) and renders the summary shown for confirmation before anything is
+ * created.
+ */
+
+import {
+  CurrencyCode,
+  Invoice,
+  LineAmountTypes,
+  QuoteLineAmountTypes,
+  QuoteStatusCodes,
+  type Account,
+  type Currency,
+  type Item,
+  type LineItem,
+  type Quote,
+  type TaxRate,
+  type TrackingCategory,
+} from 'xero-node';
+
+export interface ParsedTracking {
+  /** Tracking category name, e.g. "Region" */
+  category: string;
+  /** Option within the category, e.g. "North" */
+  option: string;
+}
+
+export interface ParsedLineItem {
+  /** Optional with an itemCode - the item's sales description is used */
+  description?: string;
+  /** A number, or text as written: "10", "2.5", "1/2" */
+  quantity: number | string;
+  /** A number, or text as written: "$50", "1,500", "25.99". Optional with an itemCode - the item's sale price is used. */
+  unitAmount?: number | string;
+  /** Code of a Xero Item, e.g. "CONSULT" */
+  itemCode?: string;
+  /** Sales account code, e.g. "200". Defaults to the item's sales account. */
+  accountCode?: string;
+  /** Xero tax type, e.g. "OUTPUT" or "ZERORATEDOUTPUT". Defaults to the item's or account's tax type. */
+  taxType?: string;
+  /** Percentage off the line, e.g. 10 or "10%" */
+  discountRate?: number | string;
+  /** Up to two tracking categories, by name */
+  tracking?: ParsedTracking[];
+}
+
+/**
+ * The organisation's settings that line items are checked against. XeroService
+ * loads them once with getReferenceData().
+ */
+export interface OrgReferenceData {
+  items: Item[];
+  accounts: Account[];
+  taxRates: TaxRate[];
+  trackingCategories: TrackingCategory[];
+  /** Enabled currencies, including the base currency */
+  currencies: Currency[];
+  baseCurrency?: string;
+}
+
+/**
+ * Exchange rates from a local source, used only to preview a quote's value in
+ * another currency. rates[code] is the value of one unit of `code` in `base`.
+ */
+export interface ExchangeRates {
+  base: string;
+  rates: Record<string, number>;
+  /** When the rates were taken, YYYY-MM-DD */
+  date?: string;
+}
+
+export interface ParsedQuoteInput {
+  contactName: string;
+  contactEmail?: string;
+  lineItems: ParsedLineItem[];
+  reference?: string;
+  termsAndConditions?: string;
+  /** YYYY-MM-DD, defaults to today */
+  date?: string;
+  /** YYYY-MM-DD */
+  expiryDate?: string;
+  title?: string;
+  summary?: string;
+  /** ISO 4217 code, e.g. "USD". Defaults to the organisation's base currency. */
+  currencyCode?: string;
+  /** Whether unit amounts exclude tax (Xero's default), include it, or have no tax */
+  lineAmountTypes?: 'Exclusive' | 'Inclusive' | 'NoTax';
+}
+
+type LineAmountMode = NonNullable<ParsedQuoteInput['lineAmountTypes']>;
+
+export interface ParsedInvoiceInput extends ParsedQuoteInput {
+  /** YYYY-MM-DD; takes precedence over paymentTerms */
+  dueDate?: string;
+  /** e.g. "Net 30", "14 days", "Due on receipt", "20th of following month", "End of following month" */
+  paymentTerms?: string;
+}
+
+export type QuoteStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'DECLINED' | 'INVOICED' | 'DELETED';
+
+/** A quote fetched back from Xero, in the same shape Claude parses new quotes into */
+export interface FetchedQuote extends ParsedQuoteInput {
+  quoteID: string;
+  quoteNumber: string;
+  status: QuoteStatus;
+  contactID?: string;
+  /** Totals as calculated by Xero */
+  subTotal?: number;
+  totalTax?: number;
+  total?: number;
+}
+
+/**
+ * Status changes Xero accepts for a quote. Accepting or declining can be undone
+ * back to SENT; INVOICED and DELETED are final.
+ */
+export const QUOTE_STATUS_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  DRAFT: ['SENT', 'DELETED'],
+  SENT: ['ACCEPTED', 'DECLINED', 'DELETED'],
+  ACCEPTED: ['SENT', 'INVOICED'],
+  DECLINED: ['SENT', 'DELETED'],
+  INVOICED: [],
+  DELETED: [],
+};
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+/**
+ * Parse amounts and quantities the way people write them:
+ * "1,500", "$50", "2.5", "1/2", "1 1/2". Returns NaN for anything else,
+ * including "1e3" and "0x10", so a typo can't become a large number.
+ */
+export function parseNumber(value: unknown): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const text = String(value ?? '').trim().replace(/^[$€£]/, '').replace(/,/g, '');
+  const fraction = text.match(/^(?:(\d+)\s+)?(\d+)\s*\/\s*(\d+)$/);
+  if (fraction) {
+    return Number(fraction[1] ?? 0) + Number(fraction[2]) / Number(fraction[3]);
+  }
+  return /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : NaN;
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === '';
+}
+
+/**
+ * Parse a discount written as 10 or "10%"
+ */
+function parsePercentage(value: unknown): number {
+  return parseNumber(typeof value === 'string' ? value.trim().replace(/%$/, '') : value);
+}
+
+const LINE_AMOUNT_MODES: LineAmountMode[] = ['Exclusive', 'Inclusive', 'NoTax'];
+
+/**
+ * Read a line amount type in any case, including the capitals Xero uses on quotes
+ */
+function lineAmountMode(value: string | undefined): LineAmountMode | undefined {
+  return LINE_AMOUNT_MODES.find((mode) => mode.toLowerCase() === value?.trim().toLowerCase());
+}
+
+function currencyOf(input: ParsedQuoteInput, reference?: OrgReferenceData): string | undefined {
+  return input.currencyCode?.trim().toUpperCase() || reference?.baseCurrency;
+}
+
+function enabledCurrencies(reference: OrgReferenceData): string[] {
+  const codes = reference.currencies.map((currency) => String(currency.code));
+  return reference.baseCurrency && !codes.includes(reference.baseCurrency) ? [reference.baseCurrency, ...codes] : codes;
+}
+
+function isActive(record: { status?: unknown }): boolean {
+  return record.status === undefined || String(record.status) === 'ACTIVE';
+}
+
+function sameName(a: string | undefined, b: string): boolean {
+  return a?.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function findItem(reference: OrgReferenceData | undefined, code: string): Item | undefined {
+  return reference?.items.find((item) => sameName(item.code, code));
+}
+
+function findAccount(reference: OrgReferenceData | undefined, code: string | undefined): Account | undefined {
+  return code ? reference?.accounts.find((account) => sameName(account.code, code)) : undefined;
+}
+
+function findTaxRate(reference: OrgReferenceData | undefined, taxType: string | undefined): TaxRate | undefined {
+  return taxType ? reference?.taxRates.find((rate) => sameName(rate.taxType, taxType)) : undefined;
+}
+
+function findTrackingCategory(reference: OrgReferenceData | undefined, name: string): TrackingCategory | undefined {
+  return reference?.trackingCategories.find((category) => isActive(category) && sameName(category.name, name));
+}
+
+interface ResolvedLine {
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  discountRate: number;
+  /** After any discount, as entered - with or without tax depending on the line amount type */
+  amount: number;
+  /** Known only when the line's tax rate is (which needs reference data), or for NoTax */
+  taxRate?: TaxRate;
+  tax?: number;
+  exclusive?: number;
+  inclusive?: number;
+}
+
+/**
+ * Fill in a line's description and price from its item, and work out its
+ * amount and the tax Xero will apply: the line's tax type, else the item's,
+ * else the sales account's.
+ */
+function resolveLine(line: ParsedLineItem, reference: OrgReferenceData | undefined, mode: LineAmountMode): ResolvedLine {
+  const item = line.itemCode ? findItem(reference, line.itemCode) : undefined;
+  const account = findAccount(reference, line.accountCode ?? item?.salesDetails?.accountCode);
+
+  const quantity = parseNumber(line.quantity);
+  const unitAmount = isBlank(line.unitAmount) ? item?.salesDetails?.unitPrice ?? NaN : parseNumber(line.unitAmount);
+  const discountRate = isBlank(line.discountRate) ? 0 : parsePercentage(line.discountRate);
+  const amount = round2(quantity * unitAmount * (1 - discountRate / 100));
+  const resolved: ResolvedLine = {
+    description: line.description?.trim() || item?.description || item?.name || '',
+    quantity,
+    unitAmount,
+    discountRate,
+    amount,
+  };
+
+  if (mode === 'NoTax') {
+    return { ...resolved, tax: 0, exclusive: amount, inclusive: amount };
+  }
+
+  const taxRate = findTaxRate(reference, line.taxType ?? item?.salesDetails?.taxType ?? account?.taxType);
+  if (!taxRate) {
+    return mode === 'Inclusive' ? { ...resolved, inclusive: amount } : { ...resolved, exclusive: amount };
+  }
+
+  // Xero rounds tax per line
+  const rate = Number(taxRate.effectiveRate ?? 0) / 100;
+  const tax = mode === 'Inclusive' ? round2(amount - amount / (1 + rate)) : round2(amount * rate);
+  return mode === 'Inclusive'
+    ? { ...resolved, taxRate, tax, exclusive: round2(amount - tax), inclusive: amount }
+    : { ...resolved, taxRate, tax, exclusive: amount, inclusive: round2(amount + tax) };
+}
+
+function validateLine(line: ParsedLineItem, label: string, reference: OrgReferenceData | undefined, errors: string[]) {
+  const item = line.itemCode ? findItem(reference, line.itemCode) : undefined;
+  if (line.itemCode && reference && !item) {
+    errors.push(`${label}: item code "${line.itemCode}" is not an item in Xero`);
+  } else if (item?.isSold === false) {
+    errors.push(`${label}: item "${item.code}" is not set up to be sold`);
+  }
+
+  // With an item code Xero fills in the description and price
+  if (!line.itemCode && !line.description?.trim()) {
+    errors.push(`${label}: description is required`);
+  }
+
+  const quantity = parseNumber(line.quantity);
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    errors.push(`${label}: quantity "${line.quantity}" must be a positive number`);
+  }
+
+  if (isBlank(line.unitAmount) && line.itemCode) {
+    if (item && item.salesDetails?.unitPrice === undefined) {
+      errors.push(`${label}: unit amount is required - item "${item.code}" has no sale price`);
+    }
+  } else {
+    const unitAmount = parseNumber(line.unitAmount);
+    if (!Number.isFinite(unitAmount) || unitAmount < 0) {
+      errors.push(`${label}: unit amount "${line.unitAmount ?? ''}" must be a number of at least 0`);
+    }
+  }
+
+  if (!isBlank(line.discountRate)) {
+    const discountRate = parsePercentage(line.discountRate);
+    if (!(discountRate >= 0 && discountRate <= 100)) {
+      errors.push(`${label}: discount rate "${line.discountRate}" must be a percentage from 0 to 100`);
+    }
+  }
+
+  if (line.accountCode && reference) {
+    const account = findAccount(reference, line.accountCode);
+    if (!account || !isActive(account)) {
+      errors.push(`${label}: account code "${line.accountCode}" is not an active account in Xero`);
+    } else if (String(account.type) === 'BANK') {
+      errors.push(`${label}: account "${line.accountCode}" is a bank account and can't be used on a line item`);
+    }
+  }
+
+  if (line.taxType && reference) {
+    const taxRate = findTaxRate(reference, line.taxType);
+    if (!taxRate || !isActive(taxRate) || taxRate.canApplyToRevenue === false) {
+      errors.push(`${label}: tax type "${line.taxType}" is not a sales tax rate in Xero`);
+    }
+  }
+
+  const tracking = line.tracking ?? [];
+  if (tracking.length > 2) {
+    errors.push(`${label}: Xero allows at most 2 tracking categories per line`);
+  }
+  for (const { category, option } of tracking) {
+    if (!category?.trim() || !option?.trim()) {
+      errors.push(`${label}: tracking needs both a category and an option`);
+      continue;
+    }
+    if (!reference) {
+      continue;
+    }
+
+    const trackingCategory = findTrackingCategory(reference, category);
+    if (!trackingCategory) {
+      errors.push(`${label}: tracking category "${category}" is not an active category in Xero`);
+      continue;
+    }
+    const options = (trackingCategory.options ?? []).filter(isActive);
+    if (!options.some((candidate) => sameName(candidate.name, option))) {
+      errors.push(
+        `${label}: "${option}" is not an option of tracking category "${trackingCategory.name}" - use one of ${options.map((candidate) => candidate.name).join(', ')}`
+      );
+    }
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * True for a real calendar date in YYYY-MM-DD form (rejects 2025-02-30)
+ */
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+/**
+ * Day `day` of the month `monthOffset` months after `date`, clamped to the month's last day
+ */
+function dayOfMonth(date: string, monthOffset: number, day: number): string {
+  const start = new Date(`${date}T00:00:00Z`);
+  const lastDay = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + monthOffset + 1, 0)).getUTCDate();
+  const result = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + monthOffset, Math.min(day, lastDay)));
+  return result.toISOString().split('T')[0];
+}
+
+/**
+ * Work out the due date for payment terms, following Xero's term types:
+ * days after the invoice date, a day of the current or following month, or
+ * the end of either. Returns null for terms it doesn't recognise.
+ */
+export function resolveDueDate(invoiceDate: string, paymentTerms: string): string | null {
+  const terms = paymentTerms.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  if (/^(due )?(on|upon) receipt$|^immediate(ly)?$/.test(terms)) {
+    return invoiceDate;
+  }
+
+  const days = terms.match(/^(?:net ?|within )?(\d+)(?: days?)?(?: after (?:the )?invoice date)?$/);
+  if (days) {
+    return addDays(invoiceDate, Number(days[1]));
+  }
+
+  const endOfMonth = terms.match(/^end of (?:the )?(current|following|next) month$|^(eom)$/);
+  if (endOfMonth) {
+    return dayOfMonth(invoiceDate, endOfMonth[1] === 'following' || endOfMonth[1] === 'next' ? 1 : 0, 31);
+  }
+
+  const dayOf = terms.match(/^(\d{1,2})(?:st|nd|rd|th)? (?:day )?of (?:the )?(current|following|next) month$/);
+  if (dayOf && Number(dayOf[1]) >= 1 && Number(dayOf[1]) <= 31) {
+    return dayOfMonth(invoiceDate, dayOf[2] === 'current' ? 0 : 1, Number(dayOf[1]));
+  }
+
+  return null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatAmount(amount: number, currencyCode?: string): string {
+  if (!currencyCode) {
+    return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  }
+  // "USD 1,500.00", with the decimal places the currency uses (JPY has none)
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: currencyCode, currencyDisplay: 'code' })
+    .format(amount)
+    .replace(/\u00a0/g, ' ');
+}
+
+function formatQuantity(quantity: number): string {
+  return String(round2(quantity));
+}
+
+/**
+ * Explain why a quote can't move from one status to another, or return null if it can
+ */
+export function validateStatusChange(from: string, to: string): string | null {
+  const allowed = QUOTE_STATUS_TRANSITIONS[from as QuoteStatus];
+  if (!allowed) {
+    return `Unknown quote status "${from}"`;
+  }
+  if (!(to in QUOTE_STATUS_TRANSITIONS)) {
+    return `Unknown quote status "${to}" - use one of ${Object.keys(QUOTE_STATUS_TRANSITIONS).join(', ')}`;
+  }
+  if (!allowed.includes(to as QuoteStatus)) {
+    const options = allowed.length > 0 ? `it can only move to ${allowed.join(' or ')}` : 'its status is final';
+    return `A quote that is ${from} can't be marked ${to} - ${options}`;
+  }
+  return null;
+}
+
+/**
+ * Check a parsed quote before it is shown or sent to Xero. With the
+ * organisation's reference data, item codes, account codes, tax types and
+ * tracking are checked against it too.
+ */
+export function validateQuoteData(input: ParsedQuoteInput, reference?: OrgReferenceData): ValidationResult {
+  const errors: string[] = [];
+
+  if (!input.contactName?.trim()) {
+    errors.push('Contact name is required');
+  }
+  if (input.contactEmail && !EMAIL_PATTERN.test(input.contactEmail.trim())) {
+    errors.push(`Contact email "${input.contactEmail}" is not a valid email address`);
+  }
+
+  if (!input.lineItems?.length) {
+    errors.push('At least one line item is required');
+  }
+
+  input.lineItems?.forEach((line, index) => validateLine(line, `Line ${index + 1}`, reference, errors));
+
+  if (input.currencyCode) {
+    const code = input.currencyCode.trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(code)) {
+      errors.push(`Currency "${input.currencyCode}" must be a 3-letter ISO code such as USD`);
+    } else if (reference && !enabledCurrencies(reference).includes(code)) {
+      errors.push(`Currency ${code} is not enabled in Xero - use one of ${enabledCurrencies(reference).join(', ')}`);
+    }
+  }
+  if (input.lineAmountTypes && !lineAmountMode(input.lineAmountTypes)) {
+    errors.push(`Line amount type "${input.lineAmountTypes}" must be Exclusive, Inclusive or NoTax`);
+  }
+
+  if (input.date && !isValidDate(input.date)) {
+    errors.push(`Date "${input.date}" must be a valid date in YYYY-MM-DD format`);
+  }
+  if (input.expiryDate && !isValidDate(input.expiryDate)) {
+    errors.push(`Expiry date "${input.expiryDate}" must be a valid date in YYYY-MM-DD format`);
+  } else if (input.expiryDate && input.expiryDate < (input.date || today())) {
+    errors.push('Expiry date must be on or after the quote date');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Check an invoice's due date or payment terms. Both are optional; without
+ * them Xero applies the contact's or organisation's default terms.
+ */
+export function validateDueDate(input: Pick<ParsedInvoiceInput, 'date' | 'dueDate' | 'paymentTerms'>): string[] {
+  const errors: string[] = [];
+  const date = input.date || today();
+
+  if (input.dueDate) {
+    if (!isValidDate(input.dueDate)) {
+      errors.push(`Due date "${input.dueDate}" must be a valid date in YYYY-MM-DD format`);
+    } else if (isValidDate(date) && input.dueDate < date) {
+      errors.push('Due date must be on or after the invoice date');
+    }
+  } else if (input.paymentTerms && isValidDate(date) && !resolveDueDate(date, input.paymentTerms)) {
+    errors.push(
+      `Payment terms "${input.paymentTerms}" are not recognised - use e.g. "Net 30", "Due on receipt" or "20th of following month"`
+    );
+  }
+
+  return errors;
+}
+
+/**
+ * Check a parsed invoice: everything validateQuoteData checks, plus the due date
+ */
+export function validateInvoiceData(input: ParsedInvoiceInput, reference?: OrgReferenceData): ValidationResult {
+  const errors = [...validateQuoteData(input, reference).errors, ...validateDueDate(input)];
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Build a xero-node line item, taking the item's description and price and the
+ * exact tracking names from the reference data when it's given
+ */
+function toLineItem(line: ParsedLineItem, reference?: OrgReferenceData): LineItem {
+  const resolved = resolveLine(line, reference, 'Exclusive');
+  const lineItem: LineItem = {};
+
+  if (resolved.description) {
+    lineItem.description = resolved.description;
+  }
+  lineItem.quantity = resolved.quantity;
+  if (!Number.isNaN(resolved.unitAmount)) {
+    lineItem.unitAmount = resolved.unitAmount;
+  }
+  if (line.itemCode) {
+    lineItem.itemCode = findItem(reference, line.itemCode)?.code ?? line.itemCode.trim();
+  }
+  if (line.accountCode) {
+    lineItem.accountCode = line.accountCode.trim();
+  }
+  if (line.taxType) {
+    lineItem.taxType = findTaxRate(reference, line.taxType)?.taxType ?? line.taxType.trim();
+  }
+  if (!isBlank(line.discountRate)) {
+    lineItem.discountRate = resolved.discountRate;
+  }
+  if (line.tracking?.length) {
+    lineItem.tracking = line.tracking.map(({ category, option }) => {
+      const trackingCategory = findTrackingCategory(reference, category);
+      const trackingOption = trackingCategory?.options?.find((candidate) => sameName(candidate.name, option));
+      return { name: trackingCategory?.name ?? category.trim(), option: trackingOption?.name ?? option.trim() };
+    });
+  }
+  return lineItem;
+}
+
+/**
+ * Build the xero-node Quote for a validated input. The contact is given by name
+ * (and email); XeroService.createQuote looks it up or creates it.
+ */
+export function toQuoteData(input: ParsedQuoteInput, reference?: OrgReferenceData): Quote {
+  const mode = lineAmountMode(input.lineAmountTypes);
+  return {
+    contact: {
+      name: input.contactName.trim(),
+      emailAddress: input.contactEmail?.trim() || undefined,
+    },
+    date: input.date || today(),
+    expiryDate: input.expiryDate,
+    reference: input.reference,
+    terms: input.termsAndConditions,
+    title: input.title,
+    summary: input.summary,
+    status: QuoteStatusCodes.DRAFT,
+    currencyCode: input.currencyCode ? CurrencyCode[input.currencyCode.trim().toUpperCase() as keyof typeof CurrencyCode] : undefined,
+    lineAmountTypes: mode ? QuoteLineAmountTypes[mode.toUpperCase() as keyof typeof QuoteLineAmountTypes] : undefined,
+    lineItems: input.lineItems.map((line) => toLineItem(line, reference)),
+  };
+}
+
+/**
+ * Xero returns dates as "/Date(1762387200000+0000)/" or "2025-11-06T00:00:00"
+ */
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const msDate = value.match(/^\/Date\((-?\d+)/);
+  return msDate ? new Date(Number(msDate[1])).toISOString().split('T')[0] : value.slice(0, 10);
+}
+
+function fromXeroLineItem(line: LineItem): ParsedLineItem {
+  const parsed: ParsedLineItem = {
+    description: line.description ?? '',
+    quantity: line.quantity ?? 1,
+    unitAmount: line.unitAmount ?? 0,
+  };
+  if (line.itemCode) {
+    parsed.itemCode = line.itemCode;
+  }
+  if (line.accountCode) {
+    parsed.accountCode = line.accountCode;
+  }
+  if (line.taxType) {
+    parsed.taxType = line.taxType;
+  }
+  if (line.discountRate) {
+    parsed.discountRate = line.discountRate;
+  }
+  if (line.tracking?.length) {
+    parsed.tracking = line.tracking.map((tracking) => ({ category: tracking.name ?? '', option: tracking.option ?? '' }));
+  }
+  return parsed;
+}
+
+/**
+ * Map a quote fetched from Xero back into the ParsedQuoteInput shape
+ */
+export function fromXeroQuote(quote: Quote): FetchedQuote {
+  const fetched: FetchedQuote = {
+    quoteID: quote.quoteID!,
+    quoteNumber: quote.quoteNumber!,
+    status: String(quote.status) as QuoteStatus,
+    contactID: quote.contact?.contactID,
+    contactName: quote.contact?.name ?? '',
+    lineItems: (quote.lineItems ?? []).map(fromXeroLineItem),
+    date: toIsoDate(quote.dateString ?? quote.date),
+    subTotal: quote.subTotal,
+    totalTax: quote.totalTax,
+    total: quote.total,
+  };
+
+  const optional: Partial<ParsedQuoteInput> = {
+    contactEmail: quote.contact?.emailAddress,
+    reference: quote.reference,
+    termsAndConditions: quote.terms,
+    expiryDate: toIsoDate(quote.expiryDateString ?? quote.expiryDate),
+    title: quote.title,
+    summary: quote.summary,
+    currencyCode: quote.currencyCode ? String(quote.currencyCode) : undefined,
+    lineAmountTypes: quote.lineAmountTypes ? lineAmountMode(String(quote.lineAmountTypes)) : undefined,
+  };
+  const present: Partial<ParsedQuoteInput> = Object.fromEntries(Object.entries(optional).filter(([, value]) => value));
+
+  return Object.assign(fetched, present);
+}
+
+/**
+ * Build a draft sales (ACCREC) invoice for a validated input
+ */
+export function toInvoiceData(input: ParsedInvoiceInput, reference?: OrgReferenceData): Invoice {
+  const quote = toQuoteData(input, reference);
+  const date = quote.date!;
+  const mode = lineAmountMode(input.lineAmountTypes);
+
+  return {
+    type: Invoice.TypeEnum.ACCREC,
+    status: Invoice.StatusEnum.DRAFT,
+    contact: quote.contact,
+    date,
+    dueDate: input.dueDate || (input.paymentTerms ? resolveDueDate(date, input.paymentTerms) ?? undefined : undefined),
+    reference: input.reference,
+    currencyCode: quote.currencyCode,
+    lineAmountTypes: mode ? LineAmountTypes[mode] : undefined,
+    lineItems: quote.lineItems,
+  };
+}
+
+const LINE_AMOUNT_LABELS: Record<LineAmountMode, string> = {
+  Exclusive: 'excluding tax',
+  Inclusive: 'including tax',
+  NoTax: 'no tax',
+};
+
+/**
+ * "In SGD: ≈ SGD 2,025.00 at 1 USD = 1.35 SGD", or null when there's nothing to
+ * convert. Rates in another base than the organisation's can't give its
+ * base-currency equivalent, so that is said instead.
+ */
+function exchangePreview(
+  amount: number,
+  currency: string | undefined,
+  exchangeRates: ExchangeRates | undefined,
+  baseCurrency: string | undefined
+): string | null {
+  if (!exchangeRates || !currency || currency === (baseCurrency ?? exchangeRates.base)) {
+    return null;
+  }
+  if (baseCurrency && baseCurrency !== exchangeRates.base) {
+    return `${`In ${baseCurrency}:`.padEnd(12)}no preview - the exchange rates are in ${exchangeRates.base}, not ${baseCurrency}`;
+  }
+
+  const label = `In ${exchangeRates.base}:`.padEnd(12);
+  const rate = exchangeRates.rates[currency];
+  if (!rate) {
+    return `${label}no ${currency} exchange rate available`;
+  }
+  const asOf = exchangeRates.date ? ` (rates from ${exchangeRates.date})` : '';
+  return `${label}≈ ${formatAmount(round2(amount * rate), exchangeRates.base)} at 1 ${currency} = ${rate} ${exchangeRates.base}${asOf}`;
+}
+
+/**
+ * Plain-text summary of a quote for the user to confirm, or of a fetched quote.
+ * Amounts are in the quote's currency (or the organisation's base currency).
+ * With reference data, each line and the total are shown with and without tax;
+ * with exchange rates in the organisation's base currency, the total is also
+ * previewed in it.
+ */
+export function formatQuoteSummary(
+  input: ParsedQuoteInput | FetchedQuote,
+  reference?: OrgReferenceData,
+  exchangeRates?: ExchangeRates
+): string {
+  const lines: string[] = [];
+  const currency = currencyOf(input, reference);
+  const mode = lineAmountMode(input.lineAmountTypes);
+  const money = (amount: number) => formatAmount(amount, currency);
+
+  if ('quoteNumber' in input) {
+    lines.push(`Quote:      ${input.quoteNumber} (${input.status})`);
+  }
+  lines.push(`Contact:    ${input.contactName}${input.contactEmail ? ` <${input.contactEmail}>` : ''}`);
+  if (input.reference) {
+    lines.push(`Reference:  ${input.reference}`);
+  }
+  lines.push(`Date:       ${input.date || today()}${input.expiryDate ? `  (expires ${input.expiryDate})` : ''}`);
+  if (input.title) {
+    lines.push(`Title:      ${input.title}`);
+  }
+  if (input.currencyCode || mode) {
+    lines.push(`Amounts:    ${[currency, mode && LINE_AMOUNT_LABELS[mode]].filter(Boolean).join(', ')}`);
+  }
+
+  lines.push('', 'Line items:');
+  const resolved = input.lineItems.map((line) => resolveLine(line, reference, mode ?? 'Exclusive'));
+  resolved.forEach((line, index) => {
+    const discount = line.discountRate ? ` less ${formatQuantity(line.discountRate)}%` : '';
+    const price = `${formatQuantity(line.quantity)} × ${money(line.unitAmount)}${discount}`;
+    let amount = money(line.amount);
+    if (mode === 'NoTax') {
+      amount += ' (no tax)';
+    } else if (line.taxRate) {
+      amount = `${money(line.exclusive!)} excl. tax, ${money(line.inclusive!)} incl. ${line.taxRate.effectiveRate}% ${line.taxRate.name}`;
+    } else if (mode === 'Inclusive') {
+      amount += ' incl. tax';
+    }
+    lines.push(`  ${index + 1}. ${line.description} - ${price} = ${amount}`);
+
+    const { itemCode, accountCode, taxType, tracking } = toLineItem(input.lineItems[index], reference);
+    const details = [
+      itemCode && `Item ${itemCode}`,
+      accountCode && `Account ${accountCode}`,
+      taxType && !line.taxRate && mode !== 'NoTax' && `Tax ${taxType}`,
+      ...(tracking ?? []).map(({ name, option }) => `${name}: ${option}`),
+    ].filter(Boolean);
+    if (details.length > 0) {
+      lines.push(`     ${details.join(' · ')}`);
+    }
+  });
+
+  const sum = (amounts: number[]) => round2(amounts.reduce((total, amount) => total + amount, 0));
+  let total: number;
+  lines.push('');
+  if ('quoteNumber' in input && input.total !== undefined) {
+    total = input.total;
+    lines.push(
+      `Subtotal:   ${money(input.subTotal ?? 0)} (before tax)`,
+      `Total:      ${money(total)} (including ${money(input.totalTax ?? 0)} tax, as calculated by Xero)`
+    );
+  } else if (resolved.length > 0 && resolved.every((line) => line.tax !== undefined)) {
+    const subtotal = sum(resolved.map((line) => line.exclusive!));
+    const tax = sum(resolved.map((line) => line.tax!));
+    total = round2(subtotal + tax);
+    lines.push(`Subtotal:   ${money(subtotal)} (before tax)`, `Tax:        ${money(tax)}`, `Total:      ${money(total)} (including tax)`);
+  } else if (mode === 'Inclusive') {
+    total = sum(resolved.map((line) => line.amount));
+    lines.push(`Total:      ${money(total)} (including tax)`);
+  } else {
+    total = sum(resolved.map((line) => line.amount));
+    lines.push(`Subtotal:   ${money(total)} (before tax)`);
+  }
+
+  const preview = exchangePreview(total, currency, exchangeRates, reference?.baseCurrency);
+  if (preview) {
+    lines.push(preview);
+  }
+  if (input.termsAndConditions) {
+    lines.push(`Terms:      ${input.termsAndConditions}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Plain-text summary of an invoice for the user to confirm
+ */
+export function formatInvoiceSummary(
+  input: ParsedInvoiceInput,
+  reference?: OrgReferenceData,
+  exchangeRates?: ExchangeRates
+): string {
+  const date = input.date || today();
+  const dueDate = input.dueDate || (input.paymentTerms ? resolveDueDate(date, input.paymentTerms) : null);
+  const terms = input.paymentTerms && !input.dueDate ? ` (${input.paymentTerms})` : '';
+
+  const due = dueDate ? `Due:        ${dueDate}${terms}` : 'Due:        per the contact\'s default payment terms';
+  return formatQuoteSummary({ ...input, expiryDate: undefined, termsAndConditions: undefined }, reference, exchangeRates).replace(
+    /^(Date: .*)$/m,
+    `$1\n${due}`
+  );
+}
@@ -0,0 +1,634 @@
+/**
+ * Xero Client - Wraps xero-node for the quote skill
+ *
+ * Loads the tokens saved by `npm run auth` through the configured token store,
+ * selects an organisation profile, and refreshes the access token when it
+ * expires. Xero rotates the refresh token on every refresh, so the new token
+ * set is written back to the store before any API call uses it.
+ */
+
+import { randomUUID } from 'crypto';
+import { Invoice, LineAmountTypes, QuoteStatusCodes, XeroClient, type AccountingApi, type Quote } from 'xero-node';
+import { Issuer, custom, errors } from 'openid-client';
+import { config } from 'dotenv';
+import { loadCredentials, resolveProfile, saveTokenSet } from '../../../../lib/credentials.js';
+import {
+  fromXeroQuote,
+  resolveDueDate,
+  toQuoteData,
+  validateDueDate,
+  validateQuoteData,
+  validateStatusChange,
+  type FetchedQuote,
+  type OrgReferenceData,
+  type ParsedInvoiceInput,
+  type ParsedLineItem,
+  type QuoteStatus,
+} from './quote-mapper.js';
+import { withRateLimitRetry } from '../../../../lib/quote-import.js';
+import { createTokenStore, type TokenStore } from '../../../../lib/token-store.js';
+
+config();
+
+// Refresh slightly early so a token doesn't expire between the check and the request
+const EXPIRY_MARGIN_SECONDS = 60;
+
+export interface XeroServiceOptions {
+  /**
+   * Profile name, organisation name or tenant ID. Defaults to XERO_PROFILE,
+   * then XERO_TENANT_ID, then the default profile saved by `npm run auth`.
+   */
+  profile?: string;
+  store?: TokenStore;
+  /** Overridable to run against a local mock of Xero (see test/mock-xero-server.ts) */
+  identityUrl?: string;
+  apiUrl?: string;
+  /** Called before every Accounting API request, e.g. to stay under Xero's rate limit */
+  onRequest?: () => Promise<void>;
+}
+
+export interface CreatedQuote {
+  quoteID: string;
+  quoteNumber: string;
+  url: string;
+}
+
+/** One quote's outcome from createQuotes(): the created quote, or why Xero refused it */
+export interface BatchQuoteResult {
+  created?: CreatedQuote;
+  errors?: string[];
+}
+
+export interface ContactLookup {
+  contactID?: string;
+  /** Why the contact couldn't be created */
+  errors?: string[];
+}
+
+export interface CreatedInvoice {
+  invoiceID: string;
+  invoiceNumber: string;
+  url: string;
+}
+
+export interface QuoteFilters {
+  /** Contact name (ignoring case) or ContactID */
+  contact?: string;
+  status?: QuoteStatus;
+  /** Inclusive YYYY-MM-DD bounds on the quote date */
+  dateFrom?: string;
+  dateTo?: string;
+  /** Part of the reference, ignoring case. Xero can't filter on it, so it's applied here. */
+  reference?: string;
+}
+
+export interface QuoteListing {
+  quoteID: string;
+  quoteNumber: string;
+  status: QuoteStatus;
+  contactName: string;
+  reference?: string;
+  date?: string;
+  expiryDate?: string;
+  total?: number;
+  url: string;
+}
+
+export interface ConvertToInvoiceOptions extends Pick<ParsedInvoiceInput, 'date' | 'dueDate' | 'paymentTerms'> {
+  /**
+   * Pass the key of an earlier attempt to retry a conversion whose outcome is
+   * unknown (e.g. after a timeout). Each call gets a new key otherwise.
+   */
+  idempotencyKey?: string;
+}
+
+// Quotes in these states can't become invoices: declined, deleted, or already invoiced
+const UNCONVERTIBLE_QUOTE_STATUSES = ['DECLINED', 'DELETED', 'INVOICED'];
+
+// Quotes spell line amount types in capitals; invoices use LineAmountTypes
+const INVOICE_LINE_AMOUNT_TYPES: Record<string, LineAmountTypes> = {
+  EXCLUSIVE: LineAmountTypes.Exclusive,
+  INCLUSIVE: LineAmountTypes.Inclusive,
+  NOTAX: LineAmountTypes.NoTax,
+};
+
+// Xero returns quotes 100 to a page
+const QUOTES_PAGE_SIZE = 100;
+
+// Contact names looked up per request, keeping the where filter (and URL) short
+const CONTACT_LOOKUP_BATCH_SIZE = 10;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function quoteUrl(quoteID: string): string {
+  return `https://go.xero.com/app/quotes/edit/${quoteID}`;
+}
+
+export function invoiceUrl(invoiceID: string): string {
+  return `https://go.xero.com/AccountsReceivable/View.aspx?InvoiceID=${invoiceID}`;
+}
+
+/**
+ * Escape a value for a double-quoted string in a Xero `where` filter
+ */
+function whereString(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * The HTTP status of an error thrown by xero-node, which rejects with a JSON
+ * string of { response: { statusCode } }
+ */
+function responseStatus(error: unknown): number | undefined {
+  if (typeof error !== 'string') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(error).response?.statusCode;
+  } catch {
+    return undefined;
+  }
+}
+
+export class XeroService {
+  private readonly xero = new XeroClient();
+  private readonly store: TokenStore;
+  private readonly identityUrl: string;
+  private tokenSet: any;
+  private refreshing?: Promise<void>;
+  private referenceData?: Promise<OrgReferenceData>;
+
+  /** The selected profile, available after initialize() */
+  profileName = '';
+  tenantId = '';
+  tenantName = '';
+
+  constructor(private readonly options: XeroServiceOptions = {}) {
+    this.store = options.store ?? createTokenStore();
+    this.identityUrl = options.identityUrl || process.env.XERO_IDENTITY_URL || 'https://identity.xero.com';
+    const apiUrl = options.apiUrl || process.env.XERO_API_URL || 'https://api.xero.com';
+    this.xero.accountingApi.basePath = `${apiUrl}/api.xro/2.0`;
+  }
+
+  /**
+   * Load the saved tokens, select the organisation and make sure the access token is usable
+   */
+  async initialize(): Promise<void> {
+    const credentials = await loadCredentials(this.store);
+    if (!credentials) {
+      throw new Error(`No saved Xero credentials in ${this.store.description} - run npm run auth first`);
+    }
+
+    const selector = this.options.profile || process.env.XERO_PROFILE || process.env.XERO_TENANT_ID;
+    const { name, profile } = resolveProfile(credentials, selector);
+    this.profileName = name;
+    this.tenantId = profile.tenantId;
+    this.tenantName = profile.tenantName;
+    this.tokenSet = credentials.tokenSet;
+
+    await this.ensureAccessToken();
+  }
+
+  private async ensureAccessToken() {
+    if (!this.tokenSet) {
+      throw new Error('XeroService is not initialized - call initialize() first');
+    }
+
+    const expiresAt = typeof this.tokenSet.expires_at === 'number' ? this.tokenSet.expires_at : 0;
+    if (expiresAt - EXPIRY_MARGIN_SECONDS <= Date.now() / 1000) {
+      // Share one refresh between concurrent calls - the old refresh token only works once
+      this.refreshing ??= this.refreshAccessToken().finally(() => {
+        this.refreshing = undefined;
+      });
+      await this.refreshing;
+    }
+
+    this.xero.setTokenSet(this.tokenSet);
+  }
+
+  private async refreshAccessToken() {
+    const clientId = process.env.XERO_CLIENT_ID;
+    const clientSecret = process.env.XERO_CLIENT_SECRET;
+    if (!clientId || !clientSecret) {
+      throw new Error('XERO_CLIENT_ID and XERO_CLIENT_SECRET must be set in .env to refresh the Xero access token');
+    }
+    if (!this.tokenSet.refresh_token) {
+      throw new Error('No refresh token saved - run npm run auth');
+    }
+
+    custom.setHttpOptionsDefaults({ timeout: 3500 });
+    const issuer = await Issuer.discover(this.identityUrl);
+    const client = new issuer.Client({ client_id: clientId, client_secret: clientSecret });
+
+    let tokenSet;
+    try {
+      tokenSet = await client.refresh(this.tokenSet.refresh_token);
+    } catch (error) {
+      if (error instanceof errors.OPError && error.error === 'invalid_grant') {
+        throw new Error('Xero rejected the refresh token - run npm run auth to re-authorize');
+      }
+      throw error;
+    }
+
+    const credentials = await saveTokenSet(tokenSet, this.store);
+    this.tokenSet = credentials.tokenSet;
+  }
+
+  /**
+   * Make one Accounting API request with a fresh access token, retrying when
+   * Xero answers 429. onRequest runs before every attempt.
+   */
+  private async request<T>(call: (api: AccountingApi) => Promise<T>): Promise<T> {
+    return withRateLimitRetry(async () => {
+      await this.options.onRequest?.();
+      await this.ensureAccessToken();
+      return call(this.xero.accountingApi);
+    });
+  }
+
+  /**
+   * The organisation's items, accounts, tax rates, tracking categories and
+   * currencies, for validating and summarising quotes. Loaded once and then cached.
+   */
+  async getReferenceData(): Promise<OrgReferenceData> {
+    this.referenceData ??= this.loadReferenceData().catch((error) => {
+      this.referenceData = undefined;
+      throw error;
+    });
+    return this.referenceData;
+  }
+
+  // One request at a time: Xero allows only five in flight per organisation
+  private async loadReferenceData(): Promise<OrgReferenceData> {
+    const items = await this.request((api) => api.getItems(this.tenantId)).catch((error) => {
+      // Tokens saved before the skill read settings lack accounting.settings.read
+      if (responseStatus(error) === 401 || responseStatus(error) === 403) {
+        throw new Error('Xero refused access to the organisation settings - run npm run auth again to grant it');
+      }
+      throw error;
+    });
+    const accounts = await this.request((api) => api.getAccounts(this.tenantId));
+    const taxRates = await this.request((api) => api.getTaxRates(this.tenantId));
+    const trackingCategories = await this.request((api) => api.getTrackingCategories(this.tenantId));
+    const currencies = await this.request((api) => api.getCurrencies(this.tenantId));
+    const organisations = await this.request((api) => api.getOrganisations(this.tenantId));
+
+    const baseCurrency = organisations.body.organisations?.[0]?.baseCurrency;
+    return {
+      items: items.body.items ?? [],
+      accounts: accounts.body.accounts ?? [],
+      taxRates: taxRates.body.taxRates ?? [],
+      trackingCategories: trackingCategories.body.trackingCategories ?? [],
+      currencies: currencies.body.currencies ?? [],
+      baseCurrency: baseCurrency ? String(baseCurrency) : undefined,
+    };
+  }
+
+  /**
+   * Find a contact's ID by name, ignoring case
+   */
+  async findContact(name: string): Promise<string | undefined> {
+    const where = `Name.ToLower()=="${whereString(name.trim().toLowerCase())}"`;
+    const found = await this.request((api) => api.getContacts(this.tenantId, undefined, where));
+    return found.body.contacts?.[0]?.contactID;
+  }
+
+  /**
+   * Find a contact by name (ignoring case), creating it if there is none
+   */
+  async findOrCreateContact(name: string, email?: string): Promise<string> {
+    const existing = await this.findContact(name);
+    if (existing) {
+      return existing;
+    }
+
+    const created = await this.request((api) =>
+      api.createContacts(this.tenantId, {
+        contacts: [{ name: name.trim(), emailAddress: email || undefined }],
+      })
+    );
+    return created.body.contacts![0].contactID!;
+  }
+
+  /**
+   * Find or create several contacts by name (ignoring case), using one lookup
+   * per ten names and a single request for the missing ones. Results are keyed
+   * by lower-case name.
+   */
+  async findOrCreateContacts(contacts: Array<{ name: string; email?: string }>): Promise<Map<string, ContactLookup>> {
+    const wanted = new Map<string, { name: string; email?: string }>();
+    for (const contact of contacts) {
+      const key = contact.name.trim().toLowerCase();
+      if (!wanted.has(key)) {
+        wanted.set(key, { name: contact.name.trim(), email: contact.email?.trim() || undefined });
+      }
+    }
+
+    const results = new Map<string, ContactLookup>();
+    const names = [...wanted.keys()];
+    for (let start = 0; start < names.length; start += CONTACT_LOOKUP_BATCH_SIZE) {
+      const where = names
+        .slice(start, start + CONTACT_LOOKUP_BATCH_SIZE)
+        .map((name) => `Name.ToLower()=="${whereString(name)}"`)
+        .join(' OR ');
+      const found = await this.request((api) => api.getContacts(this.tenantId, undefined, where));
+      for (const contact of found.body.contacts ?? []) {
+        const key = contact.name?.toLowerCase();
+        if (key && wanted.has(key) && !results.has(key)) {
+          results.set(key, { contactID: contact.contactID });
+        }
+      }
+    }
+
+    const missing = [...wanted].filter(([key]) => !results.has(key));
+    if (missing.length > 0) {
+      const created = await this.request((api) =>
+        api.createContacts(
+          this.tenantId,
+          { contacts: missing.map(([, contact]) => ({ name: contact.name, emailAddress: contact.email })) },
+          false
+        )
+      );
+      created.body.contacts?.forEach((contact, index) => {
+        const errors = contact.validationErrors?.map((error) => error.message ?? 'Unknown error') ?? [];
+        results.set(missing[index][0], errors.length > 0 ? { errors } : { contactID: contact.contactID });
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Create a quote, resolving its contact by name when no contactID is given
+   */
+  async createQuote(quoteData: Quote): Promise<CreatedQuote> {
+    const contactID =
+      quoteData.contact?.contactID ??
+      (await this.findOrCreateContact(quoteData.contact?.name ?? '', quoteData.contact?.emailAddress));
+
+    const response = await this.request((api) =>
+      api.createQuotes(this.tenantId, {
+        quotes: [{ ...quoteData, contact: { contactID } }],
+      })
+    );
+
+    const created = response.body.quotes![0];
+    return {
+      quoteID: created.quoteID!,
+      quoteNumber: created.quoteNumber!,
+      url: quoteUrl(created.quoteID!),
+    };
+  }
+
+  /**
+   * Create several quotes in one request, resolving their contacts first. Xero
+   * reports errors per quote, so one invalid quote doesn't stop the rest. With
+   * an idempotency key, a retried batch returns the original response instead
+   * of creating the quotes again.
+   */
+  async createQuotes(quotes: Quote[], idempotencyKey?: string): Promise<BatchQuoteResult[]> {
+    const contacts = await this.findOrCreateContacts(
+      quotes
+        .filter((quote) => !quote.contact?.contactID)
+        .map((quote) => ({ name: quote.contact?.name ?? '', email: quote.contact?.emailAddress }))
+    );
+
+    const results: BatchQuoteResult[] = quotes.map(() => ({}));
+    const toSend: Array<{ index: number; quote: Quote }> = [];
+    quotes.forEach((quote, index) => {
+      const contact = quote.contact?.contactID
+        ? { contactID: quote.contact.contactID }
+        : contacts.get((quote.contact?.name ?? '').trim().toLowerCase());
+      if (contact?.contactID) {
+        toSend.push({ index, quote: { ...quote, contact: { contactID: contact.contactID } } });
+      } else {
+        results[index] = { errors: contact?.errors ?? ['The contact could not be found or created'] };
+      }
+    });
+
+    if (toSend.length === 0) {
+      return results;
+    }
+
+    const response = await this.request((api) =>
+      api.createQuotes(this.tenantId, { quotes: toSend.map(({ quote }) => quote) }, false, idempotencyKey)
+    );
+
+    response.body.quotes?.forEach((created, position) => {
+      const errors = created.validationErrors?.map((error) => error.message ?? 'Unknown error') ?? [];
+      results[toSend[position].index] =
+        errors.length > 0
+          ? { errors }
+          : { created: { quoteID: created.quoteID!, quoteNumber: created.quoteNumber!, url: quoteUrl(created.quoteID!) } };
+    });
+    return results;
+  }
+
+  /**
+   * Fetch a quote by its QuoteID or quote number (e.g. "QU-0042")
+   */
+  async getQuoteRecord(quoteIdOrNumber: string): Promise<Quote> {
+    const wanted = quoteIdOrNumber.trim();
+
+    if (UUID_PATTERN.test(wanted)) {
+      const response = await this.request((api) => api.getQuote(this.tenantId, wanted));
+      const quote = response.body.quotes?.[0];
+      if (quote) {
+        return quote;
+      }
+    } else {
+      const response = await this.request((api) =>
+        api.getQuotes(
+          this.tenantId,
+          undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined,
+          wanted
+        )
+      );
+      const quote = response.body.quotes?.find((candidate) => candidate.quoteNumber?.toLowerCase() === wanted.toLowerCase());
+      if (quote) {
+        return quote;
+      }
+    }
+
+    throw new Error(`Quote ${wanted} was not found in ${this.tenantName}`);
+  }
+
+  /**
+   * List quotes matching every given filter, newest first
+   */
+  async listQuotes(filters: QuoteFilters = {}): Promise<QuoteListing[]> {
+    let contactID: string | undefined;
+    if (filters.contact) {
+      contactID = UUID_PATTERN.test(filters.contact.trim()) ? filters.contact.trim() : await this.findContact(filters.contact);
+      if (!contactID) {
+        return [];
+      }
+    }
+
+    const quotes: Quote[] = [];
+    for (let page = 1; ; page++) {
+      const response = await this.request((api) =>
+        api.getQuotes(
+          this.tenantId,
+          undefined,
+          filters.dateFrom,
+          filters.dateTo,
+          undefined,
+          undefined,
+          contactID,
+          filters.status,
+          page,
+          'Date DESC'
+        )
+      );
+      const batch = response.body.quotes ?? [];
+      quotes.push(...batch);
+      if (batch.length < QUOTES_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    const reference = filters.reference?.trim().toLowerCase();
+    return quotes
+      .filter((quote) => !reference || quote.reference?.toLowerCase().includes(reference))
+      .map((quote) => {
+        const fetched = fromXeroQuote(quote);
+        return {
+          quoteID: fetched.quoteID,
+          quoteNumber: fetched.quoteNumber,
+          status: fetched.status,
+          contactName: fetched.contactName,
+          reference: fetched.reference,
+          date: fetched.date,
+          expiryDate: fetched.expiryDate,
+          total: fetched.total,
+          url: quoteUrl(fetched.quoteID),
+        };
+      });
+  }
+
+  /**
+   * Fetch a quote by its QuoteID or quote number, in the shape Claude parses quotes into
+   */
+  async getQuote(quoteIdOrNumber: string): Promise<FetchedQuote> {
+    return fromXeroQuote(await this.getQuoteRecord(quoteIdOrNumber));
+  }
+
+  /**
+   * Replace the line items of a draft quote
+   */
+  async updateQuoteLineItems(quoteIdOrNumber: string, lineItems: ParsedLineItem[]): Promise<FetchedQuote> {
+    const quote = await this.getQuoteRecord(quoteIdOrNumber);
+    const status = String(quote.status);
+    if (status !== 'DRAFT') {
+      throw new Error(`Quote ${quote.quoteNumber} is ${status} - only draft quotes can have their line items changed`);
+    }
+
+    const input = { ...fromXeroQuote(quote), lineItems };
+    const reference = await this.getReferenceData();
+    const validation = validateQuoteData(input, reference);
+    if (!validation.valid) {
+      throw new Error(validation.errors.join('; '));
+    }
+
+    return fromXeroQuote(await this.saveQuote(quote, { lineItems: toQuoteData(input, reference).lineItems }));
+  }
+
+  /**
+   * Move a quote to another status, checking the change is one Xero allows first
+   */
+  async updateQuoteStatus(quoteIdOrNumber: string, status: QuoteStatus): Promise<FetchedQuote> {
+    const quote = await this.getQuoteRecord(quoteIdOrNumber);
+    const problem = validateStatusChange(String(quote.status), status);
+    if (problem) {
+      throw new Error(`Quote ${quote.quoteNumber}: ${problem}`);
+    }
+
+    return fromXeroQuote(await this.saveQuote(quote, { status: QuoteStatusCodes[status] }));
+  }
+
+  /**
+   * Update a quote. Xero wants the contact and date on every update, even when they don't change.
+   */
+  private async saveQuote(quote: Quote, changes: Partial<Quote>): Promise<Quote> {
+    const response = await this.request((api) =>
+      api.updateQuote(this.tenantId, quote.quoteID!, {
+        quotes: [
+          {
+            quoteID: quote.quoteID,
+            contact: { contactID: quote.contact!.contactID },
+            date: fromXeroQuote(quote).date,
+            ...changes,
+          },
+        ],
+      })
+    );
+    return response.body.quotes![0];
+  }
+
+  /**
+   * Create an invoice, resolving its contact by name when no contactID is given.
+   * Pass an idempotency key to make a retried request return the same invoice.
+   */
+  async createInvoice(invoiceData: Invoice, idempotencyKey?: string): Promise<CreatedInvoice> {
+    const contactID =
+      invoiceData.contact?.contactID ??
+      (await this.findOrCreateContact(invoiceData.contact?.name ?? '', invoiceData.contact?.emailAddress));
+
+    const response = await this.request((api) =>
+      api.createInvoices(this.tenantId, { invoices: [{ ...invoiceData, contact: { contactID } }] }, true, undefined, idempotencyKey)
+    );
+
+    const created = response.body.invoices![0];
+    return {
+      invoiceID: created.invoiceID!,
+      invoiceNumber: created.invoiceNumber!,
+      url: invoiceUrl(created.invoiceID!),
+    };
+  }
+
+  /**
+   * Copy a quote's contact, line items (with tracking), reference and currency
+   * into a draft sales invoice. The quote itself is left unchanged.
+   */
+  async convertQuoteToInvoice(quoteIdOrNumber: string, options: ConvertToInvoiceOptions = {}): Promise<CreatedInvoice> {
+    const errors = validateDueDate(options);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    const quote = await this.getQuoteRecord(quoteIdOrNumber);
+    const status = String(quote.status);
+    if (UNCONVERTIBLE_QUOTE_STATUSES.includes(status)) {
+      throw new Error(`Quote ${quote.quoteNumber} is ${status} and can't be converted to an invoice`);
+    }
+
+    const date = options.date || new Date().toISOString().split('T')[0];
+    const dueDate = options.dueDate || (options.paymentTerms ? resolveDueDate(date, options.paymentTerms) ?? undefined : undefined);
+
+    const invoice: Invoice = {
+      type: Invoice.TypeEnum.ACCREC,
+      status: Invoice.StatusEnum.DRAFT,
+      contact: { contactID: quote.contact!.contactID },
+      date,
+      dueDate,
+      reference: quote.reference,
+      currencyCode: quote.currencyCode,
+      lineAmountTypes: quote.lineAmountTypes ? INVOICE_LINE_AMOUNT_TYPES[String(quote.lineAmountTypes)] : undefined,
+      lineItems: quote.lineItems?.map((line) => ({
+        description: line.description,
+        quantity: line.quantity,
+        unitAmount: line.unitAmount,
+        itemCode: line.itemCode,
+        accountCode: line.accountCode,
+        taxType: line.taxType,
+        discountRate: line.discountRate,
+        tracking: line.tracking,
+      })),
+    };
+
+    // One key per conversion: its own retries can't create a second invoice,
+    // while converting again (other dates, or after deleting the draft) still works
+    return this.createInvoice(invoice, options.idempotencyKey ?? `quote-to-invoice-${quote.quoteID}-${randomUUID()}`);
+  }
+}
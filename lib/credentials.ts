@@ -0,0 +1,191 @@
+/**
+ * Credentials Store - Reads and writes the credentials document through a TokenStore
+ *
+ * One Xero authorization covers every organisation the user connected, so the
+ * token set is stored once and each organisation gets a named profile that
+ * points at its tenant.
+ */
+
+import { createTokenStore, type TokenStore } from './token-store.js';
+
+export interface TenantProfile {
+  tenantId: string;
+  tenantName: string;
+  connectionId?: string;
+}
+
+export interface Credentials {
+  tokenSet: any;
+  /** Tenant of the default profile, kept for readers of the single-tenant format */
+  tenantId: string;
+  defaultProfile: string;
+  profiles: Record<string, TenantProfile>;
+  updatedAt: string;
+}
+
+/**
+ * Pick a profile name for an organisation, e.g. "Acme Corp Ltd" -> "acme-corp-ltd".
+ * An organisation that already has a profile keeps its name. When the name is
+ * taken by another organisation, or has no Latin letters or digits, the start of
+ * the tenant ID is added so that two organisations never share a profile.
+ */
+export function toProfileName(
+  tenant: { tenantId: string; tenantName: string },
+  taken: Record<string, TenantProfile> = {}
+): string {
+  const existing = Object.entries(taken).find(([, profile]) => profile.tenantId === tenant.tenantId);
+  if (existing) {
+    return existing[0];
+  }
+
+  const slug = tenant.tenantName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  const suffix = tenant.tenantId.toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 8);
+
+  if (!slug) {
+    return `org-${suffix}`;
+  }
+  return taken[slug] ? `${slug}-${suffix}` : slug;
+}
+
+/**
+ * Load credentials.json, upgrading the old `{ tokenSet, tenantId }` format to a
+ * single "default" profile. Returns null if no credentials have been saved.
+ */
+export async function loadCredentials(store: TokenStore = createTokenStore()): Promise<Credentials | null> {
+  const raw = await store.read();
+  if (raw === null) {
+    return null;
+  }
+
+  const data = JSON.parse(raw);
+
+  if (!data.profiles) {
+    return {
+      tokenSet: data.tokenSet,
+      tenantId: data.tenantId,
+      defaultProfile: 'default',
+      profiles: {
+        default: { tenantId: data.tenantId, tenantName: data.tenantName || data.tenantId },
+      },
+      updatedAt: data.updatedAt,
+    };
+  }
+
+  return data as Credentials;
+}
+
+/**
+ * Save the token set and merge the given profiles into any existing ones.
+ * The first profile becomes the default unless a default already exists.
+ * Throws rather than replace a profile that points at a different tenant.
+ */
+export async function saveCredentials(
+  tokenSet: any,
+  profiles: Record<string, TenantProfile>,
+  store: TokenStore = createTokenStore()
+): Promise<Credentials> {
+  const existing = await loadCredentials(store);
+
+  for (const [name, profile] of Object.entries(profiles)) {
+    const current = existing?.profiles[name];
+    if (current && current.tenantId !== profile.tenantId) {
+      throw new Error(
+        `Profile "${name}" already belongs to ${current.tenantName} (${current.tenantId}) - not replacing it with ${profile.tenantName}`
+      );
+    }
+  }
+
+  const mergedProfiles = { ...(existing?.profiles ?? {}), ...profiles };
+
+  const defaultProfile =
+    existing && mergedProfiles[existing.defaultProfile]
+      ? existing.defaultProfile
+      : Object.keys(profiles)[0];
+
+  const credentials: Credentials = {
+    tokenSet,
+    tenantId: mergedProfiles[defaultProfile].tenantId,
+    defaultProfile,
+    profiles: mergedProfiles,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await store.write(JSON.stringify(credentials, null, 2));
+  return credentials;
+}
+
+/**
+ * Persist a refreshed token set, keeping the existing profiles. Xero rotates the
+ * refresh token on every refresh, so call this as soon as a refresh succeeds.
+ */
+export async function saveTokenSet(tokenSet: any, store: TokenStore = createTokenStore()): Promise<Credentials> {
+  const existing = await loadCredentials(store);
+  if (!existing) {
+    throw new Error('No saved credentials to update - run npm run auth first');
+  }
+
+  const credentials: Credentials = { ...existing, tokenSet, updatedAt: new Date().toISOString() };
+  await store.write(JSON.stringify(credentials, null, 2));
+  return credentials;
+}
+
+/**
+ * Remove a profile, deleting the stored credentials entirely when it was the
+ * last one. Returns the remaining credentials, or null if none are left.
+ */
+export async function removeProfile(name: string, store: TokenStore = createTokenStore()): Promise<Credentials | null> {
+  const existing = await loadCredentials(store);
+  if (!existing) {
+    return null;
+  }
+
+  const { [name]: _removed, ...profiles } = existing.profiles;
+  const remaining = Object.keys(profiles);
+
+  if (remaining.length === 0) {
+    await store.remove();
+    return null;
+  }
+
+  const defaultProfile = profiles[existing.defaultProfile] ? existing.defaultProfile : remaining[0];
+  const credentials: Credentials = {
+    ...existing,
+    tenantId: profiles[defaultProfile].tenantId,
+    defaultProfile,
+    profiles,
+    updatedAt: existing.updatedAt,
+  };
+
+  await store.write(JSON.stringify(credentials, null, 2));
+  return credentials;
+}
+
+/**
+ * Pick a profile by name, falling back to XERO_PROFILE and then the default profile.
+ * A tenant ID or organisation name is also accepted in place of a profile name.
+ */
+export function resolveProfile(
+  credentials: Credentials,
+  selector = process.env.XERO_PROFILE
+): { name: string; profile: TenantProfile } {
+  const wanted = selector || credentials.defaultProfile;
+
+  if (credentials.profiles[wanted]) {
+    return { name: wanted, profile: credentials.profiles[wanted] };
+  }
+
+  const match = Object.entries(credentials.profiles).find(
+    ([, profile]) =>
+      profile.tenantId === wanted || profile.tenantName.toLowerCase() === wanted.toLowerCase()
+  );
+
+  if (!match) {
+    const available = Object.keys(credentials.profiles).join(', ');
+    throw new Error(`Unknown Xero profile "${wanted}". Available profiles: ${available}`);
+  }
+
+  return { name: match[0], profile: match[1] };
+}
@@ -2,21 +2,42 @@
 /**
  * OAuth Helper - Run this once to authorize and get initial tokens
  * Usage: npm run auth
+ *        npm run auth -- --tenant "Acme Corp" --tenant <tenant-id>
+ *        npm run auth -- --all
+ *        npm run auth -- --no-server   (paste the redirected URL instead of running a callback server)
+ *
+ * Maintenance commands (select a profile with --profile <name> or XERO_PROFILE):
+ *        npm run auth -- status    Token expiry, scopes and organisation; exits 2 if re-auth is needed
+ *        npm run auth -- refresh   Refresh the access token now
+ *        npm run auth -- revoke    Disconnect the organisation and delete its local profile (--all for every one)
  */
 
 import { XeroClient } from 'xero-node';
+import { Issuer, custom, errors } from 'openid-client';
 import * as http from 'http';
-import * as url from 'url';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import * as crypto from 'crypto';
+import * as readline from 'readline/promises';
 import { config } from 'dotenv';
+import {
+  loadCredentials,
+  removeProfile,
+  resolveProfile,
+  saveCredentials,
+  saveTokenSet,
+  toProfileName,
+  type Credentials,
+  type TenantProfile,
+} from './credentials.js';
+import { createTokenStore, type TokenStore } from './token-store.js';
 
 config();
 
 const CLIENT_ID = process.env.XERO_CLIENT_ID;
 const CLIENT_SECRET = process.env.XERO_CLIENT_SECRET;
 const REDIRECT_URI = process.env.XERO_REDIRECT_URI || 'http://localhost:3000/callback';
-const CREDENTIALS_PATH = path.join(process.cwd(), 'credentials.json');
+// Overridable so the helper can run against a local mock of Xero (see test/mock-xero-server.ts)
+const IDENTITY_URL = process.env.XERO_IDENTITY_URL || 'https://identity.xero.com';
+const API_URL = process.env.XERO_API_URL || 'https://api.xero.com';
 
 if (!CLIENT_ID || !CLIENT_SECRET) {
   console.error('Error: XERO_CLIENT_ID and XERO_CLIENT_SECRET must be set in .env file');
@@ -24,88 +45,280 @@ if (!CLIENT_ID || !CLIENT_SECRET) {
   process.exit(1);
 }
 
+// accounting.settings.read covers the items, accounts, tax rates, tracking
+// categories, currencies and organisation details used to check quote lines
+const SCOPES = 'openid profile email accounting.transactions accounting.contacts accounting.settings.read offline_access'.split(' ');
+
+// Xero refresh tokens expire if unused for 60 days
+const REFRESH_TOKEN_LIFETIME_MS = 60 * 24 * 60 * 60 * 1000;
+
+// Exit code for "re-authorize with npm run auth", distinct from 1 for unexpected failures
+const EXIT_REAUTH_REQUIRED = 2;
+
 const xero = new XeroClient({
   clientId: CLIENT_ID,
   clientSecret: CLIENT_SECRET,
   redirectUris: [REDIRECT_URI],
-  scopes: 'openid profile email accounting.transactions accounting.contacts offline_access'.split(' '),
+  scopes: SCOPES,
 });
 
-async function saveTokens(tokenSet: any, tenantId: string) {
-  const credentials = {
-    tokenSet,
-    tenantId,
-    updatedAt: new Date().toISOString(),
-  };
-  await fs.writeFile(CREDENTIALS_PATH, JSON.stringify(credentials, null, 2));
-  console.log(`\n✓ Tokens saved to ${CREDENTIALS_PATH}`);
+/**
+ * Discover the identity server and attach an OpenID client to the Xero client.
+ * Replaces xero.initialize(), which always talks to identity.xero.com.
+ */
+async function initializeClient() {
+  custom.setHttpOptionsDefaults({ timeout: 3500 });
+  const issuer = await Issuer.discover(IDENTITY_URL);
+  xero.openIdClient = new issuer.Client({
+    client_id: CLIENT_ID!,
+    client_secret: CLIENT_SECRET!,
+    redirect_uris: [REDIRECT_URI],
+  });
+  xero.openIdClient[custom.clock_tolerance] = 5;
 }
 
-async function startAuthFlow() {
-  return new Promise<void>(async (resolve, reject) => {
-    const consentUrl = await xero.buildConsentUrl();
+class XeroApiError extends Error {
+  constructor(readonly status: number, body: string) {
+    super(`Xero API request failed with status ${status}: ${body}`);
+  }
+}
 
-    console.log('\n=== Xero OAuth Authorization ===\n');
-    console.log('1. Open this URL in your browser:\n');
-    console.log(consentUrl);
-    console.log('\n2. Authorize the application');
-    console.log('3. You\'ll be redirected back automatically\n');
-    console.log('Waiting for callback...\n');
+async function callXeroApi(method: string, apiPath: string, accessToken: string): Promise<any> {
+  const response = await fetch(`${API_URL}${apiPath}`, {
+    method,
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+  });
+
+  if (!response.ok) {
+    throw new XeroApiError(response.status, await response.text());
+  }
+  return response.status === 204 ? null : response.json();
+}
+
+/**
+ * The organisations this authorization can access, from the /connections endpoint
+ */
+async function listConnections(accessToken: string): Promise<any[]> {
+  return callXeroApi('GET', '/connections', accessToken);
+}
+
+async function deleteConnection(connectionId: string, accessToken: string) {
+  await callXeroApi('DELETE', `/connections/${connectionId}`, accessToken);
+}
+
+function getOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const index = args.indexOf(`--${name}`);
+  if (index !== -1) {
+    return args[index + 1];
+  }
+  const inline = args.find((arg) => arg.startsWith(`--${name}=`));
+  return inline?.slice(name.length + 3);
+}
+
+/**
+ * Parse --tenant <name|id> (repeatable) and --all from the command line
+ */
+function parseTenantArgs(argv: string[]): { selectors: string[]; all: boolean } {
+  const selectors: string[] = [];
+  let all = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--all') {
+      all = true;
+    } else if (argv[i] === '--tenant' && argv[i + 1]) {
+      selectors.push(argv[++i]);
+    } else if (argv[i].startsWith('--tenant=')) {
+      selectors.push(argv[i].slice('--tenant='.length));
+    }
+  }
+
+  return { selectors, all };
+}
+
+function matchTenant(tenants: any[], selector: string) {
+  const wanted = selector.trim().toLowerCase();
+  return tenants.find(
+    (tenant) =>
+      tenant.tenantId.toLowerCase() === wanted || tenant.tenantName.toLowerCase() === wanted
+  );
+}
+
+/**
+ * Decide which connected organisations to save, asking on the terminal when
+ * there is more than one and none were chosen on the command line
+ */
+async function selectTenants(tenants: any[]): Promise<any[]> {
+  const { selectors, all } = parseTenantArgs(process.argv.slice(2));
+
+  console.log('Connected Xero organisations:');
+  tenants.forEach((tenant, index) => {
+    console.log(`  ${index + 1}. ${tenant.tenantName} (${tenant.tenantId})`);
+  });
+  console.log('');
 
+  if (all || tenants.length === 1) {
+    return tenants;
+  }
+
+  if (selectors.length > 0) {
+    return selectors.map((selector) => {
+      const tenant = matchTenant(tenants, selector);
+      if (!tenant) {
+        throw new Error(`No connected organisation matches "${selector}"`);
+      }
+      return tenant;
+    });
+  }
+
+  if (!process.stdin.isTTY) {
+    throw new Error('Multiple organisations connected - choose with --tenant <name|id> or --all');
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question('Organisations to save (numbers, names or IDs, comma-separated; blank for all): ');
+    if (!answer.trim()) {
+      return tenants;
+    }
+
+    return answer.split(',').map((choice) => {
+      const index = Number(choice.trim());
+      const tenant = Number.isInteger(index) && index >= 1 ? tenants[index - 1] : matchTenant(tenants, choice);
+      if (!tenant) {
+        throw new Error(`No connected organisation matches "${choice.trim()}"`);
+      }
+      return tenant;
+    });
+  } finally {
+    rl.close();
+  }
+}
+
+async function saveTokens(tokenSet: any, tenants: any[]) {
+  const store = createTokenStore();
+  const existing = await loadCredentials(store);
+
+  const profiles: Record<string, TenantProfile> = {};
+  for (const tenant of tenants) {
+    profiles[toProfileName(tenant, { ...existing?.profiles, ...profiles })] = {
+      tenantId: tenant.tenantId,
+      tenantName: tenant.tenantName,
+      connectionId: tenant.id,
+    };
+  }
+
+  const credentials = await saveCredentials(tokenSet, profiles, store);
+  console.log(`\n✓ Tokens saved to ${store.description}`);
+  return { profiles, defaultProfile: credentials.defaultProfile };
+}
+
+interface PendingAuth {
+  consentUrl: string;
+  state: string;
+  codeVerifier: string;
+}
+
+/**
+ * Build the consent URL with a random state and a PKCE S256 challenge
+ */
+async function buildConsentUrl(): Promise<PendingAuth> {
+  await initializeClient();
+
+  const state = crypto.randomBytes(16).toString('base64url');
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  const consentUrl = xero.openIdClient.authorizationUrl({
+    redirect_uri: REDIRECT_URI,
+    scope: SCOPES.join(' '),
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  });
+
+  return { consentUrl, state, codeVerifier };
+}
+
+/**
+ * Verify the callback's state and exchange its code (with the PKCE verifier) for tokens
+ */
+async function exchangeCallback(callbackUrl: string, pending: PendingAuth) {
+  const params = xero.openIdClient.callbackParams(callbackUrl);
+
+  if (params.error) {
+    throw new Error(`Xero returned an error: ${params.error_description || params.error}`);
+  }
+  if (params.state !== pending.state) {
+    throw new Error('State mismatch - this callback does not belong to the current authorization');
+  }
+  if (!params.code) {
+    throw new Error('No authorization code received');
+  }
+
+  const tokenSet = await xero.openIdClient.callback(REDIRECT_URI, params, {
+    state: pending.state,
+    code_verifier: pending.codeVerifier,
+  });
+  // Get tenant/organisation info
+  const tenants = await listConnections(tokenSet.access_token!);
+  if (!tenants || tenants.length === 0) {
+    throw new Error('No Xero organisations found');
+  }
+
+  return { tokenSet, tenants };
+}
+
+/**
+ * Listen on the redirect URI's host, port and path until a callback with the
+ * expected state arrives. Only the redirect URI's own interface is bound, so
+ * other machines on the network can't reach the listener.
+ */
+function waitForCallback(pending: PendingAuth) {
+  const redirect = new URL(REDIRECT_URI);
+  const port = Number(redirect.port) || 80;
+  // URL keeps the brackets around IPv6 hosts, which listen() doesn't accept
+  const host = redirect.hostname.replace(/^\[(.*)\]$/, '$1');
+
+  return new Promise<{ tokenSet: any; tenants: any[] }>((resolve, reject) => {
     const server = http.createServer(async (req, res) => {
+      const reqUrl = new URL(req.url || '', REDIRECT_URI);
+
+      if (reqUrl.pathname !== redirect.pathname) {
+        res.writeHead(404);
+        res.end('Not Found');
+        return;
+      }
+
+      // Ignore stray requests rather than letting them end the flow
+      if (reqUrl.searchParams.get('state') !== pending.state) {
+        res.writeHead(400, { 'Content-Type': 'text/html' });
+        res.end('<h1>Error: Invalid or missing state parameter</h1>');
+        return;
+      }
+
       try {
-        const reqUrl = url.parse(req.url || '', true);
-
-        if (reqUrl.pathname === '/callback') {
-          const code = reqUrl.query.code as string;
-
-          if (!code) {
-            res.writeHead(400, { 'Content-Type': 'text/html' });
-            res.end('<h1>Error: No authorization code received</h1>');
-            server.close();
-            reject(new Error('No authorization code received'));
-            return;
-          }
-
-          // Exchange code for tokens - pass full URL
-          const tokenSet = await xero.apiCallback(req.url || '');
-
-          // Get tenant/organisation info
-          const tenants = await xero.updateTenants();
-          if (!tenants || tenants.length === 0) {
-            throw new Error('No Xero organisations found');
-          }
-
-          const tenantId = tenants[0].tenantId;
-          const tenantName = tenants[0].tenantName;
-
-          // Save tokens and tenant ID
-          await saveTokens(tokenSet, tenantId);
-
-          console.log(`✓ Connected to Xero organisation: ${tenantName}`);
-          console.log(`✓ Tenant ID: ${tenantId}`);
-          console.log('\nAdd this to your .env file:');
-          console.log(`XERO_TENANT_ID=${tenantId}\n`);
-
-          res.writeHead(200, { 'Content-Type': 'text/html' });
-          res.end(`
-            <html>
-              <head><title>Xero Authorization Success</title></head>
-              <body style="font-family: sans-serif; max-width: 600px; margin: 50px auto; padding: 20px;">
-                <h1 style="color: #13B5EA;">✓ Authorization Successful</h1>
-                <p>You've successfully connected to Xero organisation: <strong>${tenantName}</strong></p>
-                <p>Tenant ID: <code>${tenantId}</code></p>
-                <p>You can close this window and return to your terminal.</p>
-              </body>
-            </html>
-          `);
-
-          server.close();
-          resolve();
-        } else {
-          res.writeHead(404);
-          res.end('Not Found');
-        }
+        const result = await exchangeCallback(req.url || '', pending);
+
+        const orgList = result.tenants
+          .map((tenant) => `<li><strong>${tenant.tenantName}</strong> (<code>${tenant.tenantId}</code>)</li>`)
+          .join('');
+
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end(`
+          <html>
+            <head><title>Xero Authorization Success</title></head>
+            <body style="font-family: sans-serif; max-width: 600px; margin: 50px auto; padding: 20px;">
+              <h1 style="color: #13B5EA;">✓ Authorization Successful</h1>
+              <p>You've successfully connected to these Xero organisations:</p>
+              <ul>${orgList}</ul>
+              <p>You can close this window and return to your terminal.</p>
+            </body>
+          </html>
+        `);
+
+        server.close();
+        resolve(result);
       } catch (error) {
         console.error('Error during OAuth callback:', error);
         res.writeHead(500, { 'Content-Type': 'text/html' });
@@ -115,8 +328,8 @@ async function startAuthFlow() {
       }
     });
 
-    server.listen(3000, () => {
-      console.log('Callback server listening on http://localhost:3000');
+    server.listen(port, host, () => {
+      console.log(`Callback server listening on ${redirect.origin}${redirect.pathname}`);
     });
 
     server.on('error', (error) => {
@@ -126,13 +339,265 @@ async function startAuthFlow() {
   });
 }
 
-// Run the auth flow
-startAuthFlow()
-  .then(() => {
+/**
+ * Ask for the redirected URL on the terminal, for SSH sessions and containers
+ * where the browser can't reach the callback server
+ */
+async function promptForCallback(pending: PendingAuth) {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const callbackUrl = await rl.question('Paste the full URL you were redirected to: ');
+    return await exchangeCallback(callbackUrl.trim(), pending);
+  } finally {
+    rl.close();
+  }
+}
+
+async function startAuthFlow() {
+  const noServer = process.argv.includes('--no-server');
+  if (!noServer && new URL(REDIRECT_URI).protocol !== 'http:') {
+    throw new Error(`The callback server only speaks plain HTTP - use an http:// XERO_REDIRECT_URI or pass --no-server for ${REDIRECT_URI}`);
+  }
+  const pending = await buildConsentUrl();
+
+  console.log('\n=== Xero OAuth Authorization ===\n');
+  console.log('1. Open this URL in your browser:\n');
+  console.log(pending.consentUrl);
+  console.log('\n2. Authorize the application');
+
+  let result: { tokenSet: any; tenants: any[] };
+  if (noServer) {
+    console.log('3. Your browser will be redirected to a page that may not load - copy its full URL from the address bar\n');
+    result = await promptForCallback(pending);
+  } else {
+    console.log('3. You\'ll be redirected back automatically\n');
+    console.log('Waiting for callback...\n');
+    result = await waitForCallback(pending);
+  }
+
+  // Save tokens and one profile per selected organisation
+  const selected = await selectTenants(result.tenants);
+  const { profiles, defaultProfile } = await saveTokens(result.tokenSet, selected);
+
+  for (const [name, profile] of Object.entries(profiles)) {
+    console.log(`✓ Connected to Xero organisation: ${profile.tenantName}`);
+    console.log(`  Profile: ${name}  Tenant ID: ${profile.tenantId}`);
+  }
+  console.log(`\nDefault profile: ${defaultProfile}`);
+  console.log('Select another profile with XERO_PROFILE=<profile> in your .env file\n');
+}
+
+class ReauthRequiredError extends Error {}
+
+async function requireCredentials(store: TokenStore): Promise<Credentials> {
+  const credentials = await loadCredentials(store);
+  if (!credentials) {
+    throw new ReauthRequiredError('No saved credentials - run npm run auth');
+  }
+  return credentials;
+}
+
+function formatRelative(ms: number): string {
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  const amount =
+    minutes < 120 ? `${minutes} min` : minutes < 48 * 60 ? `${Math.round(minutes / 60)} hours` : `${Math.round(minutes / 1440)} days`;
+  return ms >= 0 ? `in ${amount}` : `${amount} ago`;
+}
+
+function isAccessTokenValid(tokenSet: any): boolean {
+  return typeof tokenSet?.expires_at === 'number' && tokenSet.expires_at * 1000 > Date.now();
+}
+
+/**
+ * Refresh the stored token set and persist the rotated refresh token straight away
+ */
+async function refreshStoredTokens(credentials: Credentials, store: TokenStore) {
+  if (!credentials.tokenSet?.refresh_token) {
+    throw new ReauthRequiredError('No refresh token saved - run npm run auth');
+  }
+
+  try {
+    await initializeClient();
+    const tokenSet = await xero.openIdClient.refresh(credentials.tokenSet.refresh_token);
+    return await saveTokenSet(tokenSet, store);
+  } catch (error) {
+    if (error instanceof errors.OPError && error.error === 'invalid_grant') {
+      throw new ReauthRequiredError('Refresh token was rejected by Xero - run npm run auth');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Make sure the client holds a usable access token, refreshing if it has expired
+ */
+async function ensureAccessToken(credentials: Credentials, store: TokenStore): Promise<Credentials> {
+  if (!isAccessTokenValid(credentials.tokenSet)) {
+    credentials = await refreshStoredTokens(credentials, store);
+  }
+  xero.setTokenSet(credentials.tokenSet);
+  return credentials;
+}
+
+async function showStatus(): Promise<number> {
+  const store = createTokenStore();
+  let credentials = await requireCredentials(store);
+  const { name, profile } = resolveProfile(credentials, getOption('profile'));
+  const problems: string[] = [];
+  let refreshed = false;
+
+  // Access tokens last 30 minutes, so a scheduled check usually finds an expired one.
+  // Refresh it so the check below still catches a revoked token or a disconnected organisation.
+  if (!isAccessTokenValid(credentials.tokenSet) && credentials.tokenSet?.refresh_token) {
+    try {
+      credentials = await refreshStoredTokens(credentials, store);
+      refreshed = true;
+    } catch (error) {
+      if (!(error instanceof ReauthRequiredError)) {
+        throw error;
+      }
+      problems.push(error.message);
+    }
+  }
+
+  const { tokenSet } = credentials;
+  const now = Date.now();
+
+  console.log(`Profile:        ${name}${name === credentials.defaultProfile ? ' (default)' : ''}`);
+  console.log(`Organisation:   ${profile.tenantName} (${profile.tenantId})`);
+
+  if (typeof tokenSet?.expires_at === 'number') {
+    const expiresAt = tokenSet.expires_at * 1000;
+    const state = expiresAt > now ? (refreshed ? 'refreshed, valid until' : 'valid until') : 'expired';
+    console.log(`Access token:   ${state} ${new Date(expiresAt).toISOString()} (${formatRelative(expiresAt - now)})`);
+  } else {
+    console.log('Access token:   missing');
+  }
+
+  if (tokenSet?.refresh_token) {
+    // Xero doesn't report refresh token expiry; it is 60 days from when it was last issued
+    const refreshExpiresAt = new Date(credentials.updatedAt).getTime() + REFRESH_TOKEN_LIFETIME_MS;
+    console.log(`Refresh token:  expires around ${new Date(refreshExpiresAt).toISOString()} (${formatRelative(refreshExpiresAt - now)})`);
+    if (refreshExpiresAt <= now) {
+      problems.push('Refresh token has expired');
+    }
+  } else {
+    console.log('Refresh token:  missing');
+    problems.push('No refresh token saved');
+  }
+
+  console.log(`Scopes:         ${tokenSet?.scope || 'unknown'}`);
+
+  if (isAccessTokenValid(tokenSet)) {
+    try {
+      const tenants = await listConnections(tokenSet.access_token);
+      const connected = tenants.find((tenant) => tenant.tenantId === profile.tenantId);
+      console.log(`Connection:     ${connected ? `connected as ${connected.tenantName}` : 'not connected'}`);
+      if (!connected) {
+        problems.push(`${profile.tenantName} is no longer connected to this app`);
+      }
+    } catch (error) {
+      if (error instanceof XeroApiError && (error.status === 401 || error.status === 403)) {
+        console.log('Connection:     access denied');
+        problems.push('Xero rejected the access token');
+      } else {
+        throw error;
+      }
+    }
+  } else {
+    console.log('Connection:     not checked (no usable access token)');
+    if (problems.length === 0) {
+      problems.push('No usable access token');
+    }
+  }
+
+  if (problems.length > 0) {
+    console.log('\n✗ Re-authorization required:');
+    problems.forEach((problem) => console.log(`  - ${problem}`));
+    console.log('Run: npm run auth');
+    return EXIT_REAUTH_REQUIRED;
+  }
+
+  console.log('\n✓ Credentials are valid');
+  return 0;
+}
+
+async function refreshTokens(): Promise<number> {
+  const store = createTokenStore();
+  const credentials = await refreshStoredTokens(await requireCredentials(store), store);
+  const expiresAt = new Date(credentials.tokenSet.expires_at * 1000);
+  console.log(`✓ Tokens refreshed - access token valid until ${expiresAt.toISOString()}`);
+  return 0;
+}
+
+async function revokeConnection(): Promise<number> {
+  const store = createTokenStore();
+  const credentials = await ensureAccessToken(await requireCredentials(store), store);
+
+  if (process.argv.includes('--all')) {
+    // Revoking the refresh token removes every connection for this app
+    await initializeClient();
+    await xero.revokeToken();
+    for (const name of Object.keys(credentials.profiles)) {
+      await removeProfile(name, store);
+    }
+    console.log('✓ Refresh token revoked and all organisations disconnected');
+    console.log('✓ Local tokens deleted');
+    return 0;
+  }
+
+  const { name, profile } = resolveProfile(credentials, getOption('profile'));
+
+  let connectionId = profile.connectionId;
+  if (!connectionId) {
+    const tenants = await listConnections(credentials.tokenSet.access_token);
+    connectionId = tenants.find((tenant) => tenant.tenantId === profile.tenantId)?.id;
+  }
+
+  if (connectionId) {
+    await deleteConnection(connectionId, credentials.tokenSet.access_token);
+    console.log(`✓ Disconnected Xero organisation: ${profile.tenantName}`);
+  } else {
+    console.log(`${profile.tenantName} was already disconnected`);
+  }
+
+  const remaining = await removeProfile(name, store);
+  if (remaining) {
+    console.log(`✓ Removed profile ${name}; default profile is now ${remaining.defaultProfile}`);
+  } else {
+    console.log('✓ Local tokens deleted');
+  }
+  return 0;
+}
+
+const COMMANDS: Record<string, () => Promise<number>> = {
+  login: async () => {
+    await startAuthFlow();
     console.log('\n✓ OAuth setup complete!');
-    process.exit(0);
+    return 0;
+  },
+  status: showStatus,
+  refresh: refreshTokens,
+  revoke: revokeConnection,
+};
+
+const commandName = process.argv[2] && !process.argv[2].startsWith('-') ? process.argv[2] : 'login';
+const command = COMMANDS[commandName];
+
+if (!command) {
+  console.error(`Unknown command "${commandName}". Use one of: ${Object.keys(COMMANDS).join(', ')}`);
+  process.exit(1);
+}
+
+command()
+  .then((exitCode) => {
+    process.exit(exitCode);
   })
   .catch((error) => {
-    console.error('\n✗ OAuth setup failed:', error);
+    if (error instanceof ReauthRequiredError) {
+      console.error(`\n✗ ${error.message}`);
+      process.exit(EXIT_REAUTH_REQUIRED);
+    }
+    console.error(`\n✗ ${commandName === 'login' ? 'OAuth setup' : `auth ${commandName}`} failed:`, error);
     process.exit(1);
   });
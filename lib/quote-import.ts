@@ -0,0 +1,323 @@
+/**
+ * Quote Import - Turns CSV/JSON files into quote inputs and paces their creation
+ *
+ * CSV files have one line item per row; rows sharing a reference become one quote.
+ * Recognised columns (case and spacing ignored): contact/contactName, email/contactEmail,
+ * reference, date, terms/termsAndConditions, description, quantity/qty, unitAmount/price.
+ * Columns with an empty header are ignored.
+ *
+ * JSON files hold an array of either quote objects with a lineItems array or flat
+ * rows using the same fields as the CSV columns.
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { parseNumber, type ParsedQuoteInput } from '../.claude/skills/xero-quote/lib/quote-mapper.js';
+
+export interface ImportedQuote {
+  /** Line numbers in the source file (CSV) or array positions (JSON), 1-based */
+  rows: number[];
+  input: ParsedQuoteInput;
+  /** Problems found while reading the rows, before validateQuoteData runs */
+  errors: string[];
+}
+
+const COLUMN_ALIASES: Record<string, string> = {
+  contact: 'contactName',
+  contactname: 'contactName',
+  customer: 'contactName',
+  email: 'contactEmail',
+  contactemail: 'contactEmail',
+  reference: 'reference',
+  ref: 'reference',
+  date: 'date',
+  terms: 'termsAndConditions',
+  termsandconditions: 'termsAndConditions',
+  description: 'description',
+  quantity: 'quantity',
+  qty: 'quantity',
+  unitamount: 'unitAmount',
+  price: 'unitAmount',
+  unitprice: 'unitAmount',
+};
+
+/**
+ * Parse CSV text (RFC 4180 quoting) into rows of fields
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * A blank unit amount stays undefined: the price can come from an item code,
+ * and validateQuoteData reports it when it can't
+ */
+function parseUnitAmount(value: unknown): number | undefined {
+  return value === undefined || value === null || String(value).trim() === '' ? undefined : parseNumber(value);
+}
+
+/**
+ * Group flat rows into quotes by reference, keeping rows without a reference separate
+ */
+function groupRows(rows: Array<{ row: number; fields: Record<string, any> }>): ImportedQuote[] {
+  const quotes: ImportedQuote[] = [];
+  const byReference = new Map<string, ImportedQuote>();
+
+  for (const { row, fields } of rows) {
+    const reference = String(fields.reference ?? '').trim();
+    let quote = reference ? byReference.get(reference) : undefined;
+
+    if (!quote) {
+      quote = {
+        rows: [],
+        input: {
+          contactName: String(fields.contactName ?? '').trim(),
+          lineItems: [],
+        },
+        errors: [],
+      };
+      if (fields.contactEmail) {
+        quote.input.contactEmail = String(fields.contactEmail).trim();
+      }
+      if (reference) {
+        quote.input.reference = reference;
+      }
+      if (fields.date) {
+        quote.input.date = String(fields.date).trim();
+      }
+      if (fields.termsAndConditions) {
+        quote.input.termsAndConditions = String(fields.termsAndConditions).trim();
+      }
+
+      quotes.push(quote);
+      if (reference) {
+        byReference.set(reference, quote);
+      }
+    } else if (fields.contactName && String(fields.contactName).trim() !== quote.input.contactName) {
+      quote.errors.push(`Row ${row}: contact "${fields.contactName}" differs from "${quote.input.contactName}" for reference ${reference}`);
+    }
+
+    quote.rows.push(row);
+
+    const quantity = parseNumber(fields.quantity ?? 1);
+    const unitAmount = parseUnitAmount(fields.unitAmount);
+    if (Number.isNaN(quantity)) {
+      quote.errors.push(`Row ${row}: quantity "${fields.quantity}" is not a number`);
+    }
+    if (Number.isNaN(unitAmount)) {
+      quote.errors.push(`Row ${row}: unit amount "${fields.unitAmount}" is not a number`);
+    }
+
+    quote.input.lineItems.push({
+      description: String(fields.description ?? '').trim(),
+      quantity,
+      unitAmount,
+    });
+  }
+
+  return quotes;
+}
+
+export function readCsvQuotes(text: string): ImportedQuote[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  // Spreadsheets often export a trailing comma or an unnamed column; skip those
+  const columns = header.map((name) => (name.trim() === '' ? null : COLUMN_ALIASES[name.toLowerCase().replace(/[^a-z]/g, '')]));
+  const unknown = header.filter((_, index) => columns[index] === undefined);
+  if (unknown.length > 0) {
+    throw new Error(`Unrecognised CSV columns: ${unknown.join(', ')}`);
+  }
+
+  const rows = records
+    .map((record, index) => ({ row: index + 2, record }))
+    .filter(({ record }) => record.some((value) => value.trim() !== ''))
+    .map(({ row, record }) => {
+      const fields: Record<string, string> = {};
+      columns.forEach((column, index) => {
+        if (column && record[index] !== undefined && record[index].trim() !== '') {
+          fields[column] = record[index];
+        }
+      });
+      return { row, fields };
+    });
+
+  return groupRows(rows);
+}
+
+export function readJsonQuotes(text: string): ImportedQuote[] {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data)) {
+    throw new Error('JSON import file must contain an array of quotes or rows');
+  }
+
+  const quotes: ImportedQuote[] = [];
+  const flatRows: Array<{ row: number; fields: Record<string, any> }> = [];
+
+  data.forEach((entry, index) => {
+    if (Array.isArray(entry?.lineItems)) {
+      const errors: string[] = [];
+      const lineItems = entry.lineItems.map((line: any, lineIndex: number) => {
+        const quantity = parseNumber(line.quantity ?? 1);
+        const unitAmount = parseUnitAmount(line.unitAmount);
+        if (Number.isNaN(quantity) || Number.isNaN(unitAmount)) {
+          errors.push(`Entry ${index + 1}, line ${lineIndex + 1}: quantity and unit amount must be numbers`);
+        }
+        return { ...line, quantity, unitAmount };
+      });
+      quotes.push({ rows: [index + 1], input: { ...entry, lineItems }, errors });
+    } else {
+      const fields: Record<string, any> = {};
+      for (const [key, value] of Object.entries(entry ?? {})) {
+        const column = COLUMN_ALIASES[key.toLowerCase().replace(/[^a-z]/g, '')];
+        if (column) {
+          fields[column] = value;
+        }
+      }
+      flatRows.push({ row: index + 1, fields });
+    }
+  });
+
+  // Keep file order, so "the later one" means the same thing for both kinds of entry
+  return [...quotes, ...groupRows(flatRows)].sort((a, b) => a.rows[0] - b.rows[0]);
+}
+
+export function readQuotesFile(filePath: string, text: string): ImportedQuote[] {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.csv') {
+    return readCsvQuotes(text);
+  }
+  if (extension === '.json') {
+    return readJsonQuotes(text);
+  }
+  throw new Error(`Unsupported import file type "${extension}" - use .csv or .json`);
+}
+
+/**
+ * Compare references the way a person would: ignoring case and surrounding spaces
+ */
+export function referenceKey(reference: string): string {
+  return reference.trim().toLowerCase();
+}
+
+/**
+ * Idempotency key for a batch of quotes, derived from the organisation and the
+ * quotes' references only. Re-sending the same references - on a retry, or on
+ * a re-run after a response was lost - sends the same key, so Xero returns the
+ * original response instead of creating the quotes again.
+ */
+export function batchIdempotencyKey(tenantId: string, references: string[]): string {
+  const keys = references.map(referenceKey).sort();
+  const digest = crypto.createHash('sha256').update(JSON.stringify([tenantId, keys])).digest('hex');
+  return `quote-import-${digest.slice(0, 32)}`;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Sliding-window limiter: wait() resolves once another call fits in the last minute
+ */
+export class RateLimiter {
+  private calls: number[] = [];
+
+  constructor(
+    private readonly perMinute: number,
+    private readonly now: () => number = Date.now,
+    private readonly delay: (ms: number) => Promise<void> = sleep
+  ) {}
+
+  async wait(): Promise<void> {
+    for (;;) {
+      const now = this.now();
+      this.calls = this.calls.filter((time) => now - time < 60000);
+      if (this.calls.length < this.perMinute) {
+        this.calls.push(now);
+        return;
+      }
+      await this.delay(60000 - (now - this.calls[0]));
+    }
+  }
+}
+
+/**
+ * Read the HTTP status and Retry-After from an error thrown by xero-node, which
+ * rejects with a JSON string of { response: { statusCode, headers } }
+ */
+function rateLimitDetails(error: unknown): { status?: number; retryAfter?: number } {
+  let value: any = error;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+
+  const response = value?.response;
+  const status = response?.statusCode ?? response?.status;
+  const retryAfter = Number(response?.headers?.['retry-after']);
+  return { status, retryAfter: Number.isFinite(retryAfter) ? retryAfter : undefined };
+}
+
+/**
+ * Run fn, retrying when Xero answers 429. Waits for Retry-After when given,
+ * otherwise backs off exponentially from one second.
+ */
+export async function withRateLimitRetry<T>(
+  fn: () => Promise<T>,
+  { retries = 5, wait = sleep }: { retries?: number; wait?: (ms: number) => Promise<void> } = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const { status, retryAfter } = rateLimitDetails(error);
+      if (status !== 429 || attempt >= retries) {
+        throw error;
+      }
+      await wait(retryAfter !== undefined ? retryAfter * 1000 : 1000 * 2 ** attempt);
+    }
+  }
+}
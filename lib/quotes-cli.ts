@@ -0,0 +1,294 @@
+#!/usr/bin/env tsx
+/**
+ * Quotes CLI - Bulk quote creation from a spreadsheet export
+ * Usage: npm run quotes -- import <file.csv|file.json> [--dry-run] [--yes]
+ *                                  [--results <file>] [--per-minute <n>]
+ *
+ * Every quote is validated against the organisation's items, accounts, tax
+ * types and currencies and summarised first. With --dry-run nothing is created
+ * in Xero; otherwise valid quotes are created after confirmation (or --yes), up
+ * to 50 per request. Each batch carries an idempotency key derived from the
+ * organisation and its quotes' references, so re-sending the same quotes can't
+ * create them twice. References must be unique within the file; later
+ * duplicates are rejected.
+ *
+ * Results are written to <file>.results.json on every run (after each batch when
+ * creating). Quotes whose reference already has a created result there are
+ * skipped on a re-run, and their results are kept even if the quote is edited
+ * or removed from the file. --per-minute caps Xero API calls per minute.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as readline from 'readline/promises';
+import { XeroService } from '../.claude/skills/xero-quote/lib/xero-client.js';
+import {
+  validateQuoteData,
+  toQuoteData,
+  formatQuoteSummary,
+  type OrgReferenceData,
+} from '../.claude/skills/xero-quote/lib/quote-mapper.js';
+import { RateLimiter, batchIdempotencyKey, readQuotesFile, referenceKey, type ImportedQuote } from './quote-import.js';
+import { writeFileAtomic } from './token-store.js';
+
+// Xero allows 60 calls a minute per organisation; leave some for other apps
+const DEFAULT_REQUESTS_PER_MINUTE = 50;
+
+// Quotes sent per PUT /Quotes request, as Xero recommends for batches
+const QUOTES_PER_BATCH = 50;
+
+interface ImportResult {
+  rows: number[];
+  reference?: string;
+  /** Idempotency key of the batch the quote was sent in */
+  idempotencyKey?: string;
+  /** Quote date sent to Xero, reused when a quote without a date is sent again */
+  date?: string;
+  /** "valid" is only written by --dry-run: the quote would be created */
+  status: 'created' | 'skipped' | 'valid' | 'invalid' | 'failed';
+  quoteNumber?: string;
+  quoteID?: string;
+  url?: string;
+  errors?: string[];
+}
+
+function getOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+function describeRows(rows: number[]): string {
+  return rows.length === 1 ? `row ${rows[0]}` : `rows ${rows.join(', ')}`;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (typeof error === 'string') {
+    try {
+      const response = JSON.parse(error).response;
+      const messages = response?.body?.Elements?.flatMap((element: any) =>
+        (element.ValidationErrors ?? []).map((validation: any) => validation.Message)
+      );
+      return messages?.length ? messages.join('; ') : `Xero returned status ${response?.statusCode}`;
+    } catch {
+      return error;
+    }
+  }
+  return String(error);
+}
+
+// Skipped results carry the quote number from the run that created them
+function isCreated(result: ImportResult): boolean {
+  return result.status === 'created' || result.status === 'skipped';
+}
+
+/**
+ * The previous run's results by reference. A created quote wins over any other
+ * result for the same reference.
+ */
+async function loadPreviousResults(resultsPath: string): Promise<Map<string, ImportResult>> {
+  const byReference = new Map<string, ImportResult>();
+  try {
+    const previous: ImportResult[] = JSON.parse(await fs.readFile(resultsPath, 'utf-8'));
+    for (const result of previous) {
+      const key = result.reference ? referenceKey(result.reference) : undefined;
+      if (key && (isCreated(result) || !byReference.has(key))) {
+        byReference.set(key, result);
+      }
+    }
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+  return byReference;
+}
+
+/**
+ * Decide what to do with every quote. A reference used again later in the file
+ * makes the later quote invalid. A quote already created is skipped before it is
+ * validated, so editing it can't lose its quote number and create it again.
+ */
+function planImport(quotes: ImportedQuote[], previousResults: Map<string, ImportResult>, reference: OrgReferenceData) {
+  const firstUse = new Map<string, ImportedQuote>();
+
+  return quotes.map((quote) => {
+    const key = quote.input.reference ? referenceKey(quote.input.reference) : undefined;
+    const earlier = key ? firstUse.get(key) : undefined;
+    if (earlier) {
+      return { quote, errors: [`Reference ${quote.input.reference} is already used by ${describeRows(earlier.rows)}`] };
+    }
+    if (key) {
+      firstUse.set(key, quote);
+    }
+
+    const previous = key ? previousResults.get(key) : undefined;
+    if (previous && isCreated(previous)) {
+      return { quote, errors: [], created: previous };
+    }
+
+    const errors = [...quote.errors];
+    if (!key) {
+      errors.push('A reference is required so a re-run cannot create the quote twice');
+    }
+    const validation = validateQuoteData(quote.input, reference);
+    if (!validation.valid) {
+      errors.push(...validation.errors);
+    }
+
+    return { quote, errors, lastAttempt: previous };
+  });
+}
+
+async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    throw new Error('Not running in a terminal - pass --yes to create the quotes');
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return (await rl.question(question)).trim().toLowerCase().startsWith('y');
+  } finally {
+    rl.close();
+  }
+}
+
+async function importQuotes(filePath: string): Promise<number> {
+  const dryRun = process.argv.includes('--dry-run');
+  const perMinute = Number(getOption('per-minute') ?? DEFAULT_REQUESTS_PER_MINUTE);
+  if (!Number.isInteger(perMinute) || perMinute < 1) {
+    throw new Error('--per-minute must be a whole number of at least 1');
+  }
+  const resultsPath =
+    getOption('results') ?? path.join(path.dirname(filePath), `${path.basename(filePath, path.extname(filePath))}.results.json`);
+
+  const quotes = readQuotesFile(filePath, await fs.readFile(filePath, 'utf-8'));
+  const previousResults = await loadPreviousResults(resultsPath);
+
+  console.log('Connecting to Xero...');
+  const limiter = new RateLimiter(perMinute);
+  const xeroService = new XeroService({ onRequest: () => limiter.wait() });
+  await xeroService.initialize();
+  const reference = await xeroService.getReferenceData();
+
+  const plan = planImport(quotes, previousResults, reference);
+
+  console.log(`\n=== Quote Import: ${path.basename(filePath)} → ${xeroService.tenantName} ===\n`);
+
+  plan.forEach(({ quote, errors, created }, index) => {
+    console.log(`━━ Quote ${index + 1} of ${plan.length} (${describeRows(quote.rows)}) ━━`);
+    if (created) {
+      console.log(`↷ ${quote.input.reference} was already created as ${created.quoteNumber} - will be skipped`);
+    } else if (errors.length > 0) {
+      console.log('❌ Invalid:');
+      errors.forEach((error) => console.log(`  - ${error}`));
+    } else {
+      console.log(formatQuoteSummary(quote.input, reference));
+    }
+    console.log('');
+  });
+
+  const toCreate = [...plan.entries()].filter(([, { errors, created }]) => errors.length === 0 && !created);
+  const invalid = plan.filter(({ errors }) => errors.length > 0);
+  const skipped = plan.filter(({ created }) => created);
+
+  console.log(`${toCreate.length} to create, ${skipped.length} already created, ${invalid.length} invalid\n`);
+
+  const results: ImportResult[] = plan.map(({ quote, errors, created }) => {
+    const base = { rows: quote.rows, reference: quote.input.reference };
+    if (created) {
+      return { ...created, ...base, status: 'skipped', errors: undefined };
+    }
+    if (errors.length > 0) {
+      return { ...base, status: 'invalid', errors };
+    }
+    return dryRun ? { ...base, status: 'valid' } : { ...base, status: 'failed', errors: ['Not attempted'] };
+  });
+  // Keep created quotes whose rows have since been removed from the file
+  const inFile = new Set(quotes.flatMap((quote) => (quote.input.reference ? [referenceKey(quote.input.reference)] : [])));
+  const carried = [...previousResults].filter(([key, result]) => isCreated(result) && !inFile.has(key)).map(([, result]) => result);
+  const saveResults = () => writeFileAtomic(resultsPath, JSON.stringify([...results, ...carried], null, 2));
+
+  if (dryRun || toCreate.length === 0) {
+    await saveResults();
+    console.log(dryRun ? 'Dry run - no quotes were created in Xero.' : 'Nothing to create.');
+    console.log(`Results written to ${resultsPath}`);
+    return invalid.length > 0 ? 1 : 0;
+  }
+
+  if (!process.argv.includes('--yes') && !(await confirm(`Create ${toCreate.length} quotes in Xero? [y/N] `))) {
+    console.log('Cancelled.');
+    return 1;
+  }
+
+  const today = new Date().toISOString().split('T')[0];
+  let failures = 0;
+  for (let start = 0; start < toCreate.length; start += QUOTES_PER_BATCH) {
+    const batch = toCreate.slice(start, start + QUOTES_PER_BATCH);
+    // Pin the date of undated quotes, so a re-run on another day sends them unchanged
+    const inputs = batch.map(([, { quote, lastAttempt }]) => ({ ...quote.input, date: quote.input.date || lastAttempt?.date || today }));
+    const key = batchIdempotencyKey(xeroService.tenantId, inputs.map((input) => input.reference!));
+
+    try {
+      const outcomes = await xeroService.createQuotes(inputs.map((input) => toQuoteData(input, reference)), key);
+      outcomes.forEach(({ created, errors }, position) => {
+        const [index] = batch[position];
+        const { reference: quoteReference, date } = inputs[position];
+        if (created) {
+          results[index] = {
+            ...results[index],
+            idempotencyKey: key,
+            date,
+            status: 'created',
+            quoteNumber: created.quoteNumber,
+            quoteID: created.quoteID,
+            url: created.url,
+            errors: undefined,
+          };
+          console.log(`✓ ${quoteReference}: ${created.quoteNumber} ${created.url}`);
+        } else {
+          failures++;
+          results[index] = { ...results[index], idempotencyKey: key, date, status: 'failed', errors };
+          console.error(`✗ ${quoteReference}: ${errors?.join('; ')}`);
+        }
+      });
+    } catch (error) {
+      batch.forEach(([index], position) => {
+        failures++;
+        results[index] = {
+          ...results[index],
+          idempotencyKey: key,
+          date: inputs[position].date,
+          status: 'failed',
+          errors: [describeError(error)],
+        };
+        console.error(`✗ ${inputs[position].reference}: ${describeError(error)}`);
+      });
+    }
+
+    // Save progress after every batch so an interrupted run can be resumed
+    await saveResults();
+  }
+
+  console.log(`\n✓ Results written to ${resultsPath}`);
+  return failures > 0 || invalid.length > 0 ? 1 : 0;
+}
+
+const [commandName, filePath] = process.argv.slice(2);
+
+if (commandName !== 'import' || !filePath) {
+  console.error('Usage: npm run quotes -- import <file.csv|file.json> [--dry-run] [--yes] [--results <file>] [--per-minute <n>]');
+  process.exit(1);
+}
+
+importQuotes(filePath)
+  .then((exitCode) => {
+    process.exit(exitCode);
+  })
+  .catch((error) => {
+    console.error('\n❌ Quote import failed:', error);
+    process.exit(1);
+  });
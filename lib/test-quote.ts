@@ -1,7 +1,7 @@
 #!/usr/bin/env tsx
 /**
  * Test Script - Create a sample quote to verify setup
- * Usage: npm test
+ * Usage: npm run test:live
  */
 
 import { XeroService } from '../.claude/skills/xero-quote/lib/xero-client.js';
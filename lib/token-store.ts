@@ -0,0 +1,291 @@
+/**
+ * Token Store - Where credentials.json content is kept
+ *
+ * Backends (chosen with XERO_TOKEN_STORE):
+ *   file       Plain JSON file (default, credentials.json)
+ *   encrypted  AES-256-GCM encrypted file keyed by XERO_TOKEN_SECRET or a passphrase prompt
+ *   command    Local secret provider commands, e.g. secret-tool or a password manager CLI
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as readline from 'readline/promises';
+import { spawn } from 'child_process';
+import { Writable } from 'stream';
+
+export interface TokenStore {
+  /** Human-readable location, for log messages */
+  readonly description: string;
+  /** Returns the stored document, or null if nothing has been saved */
+  read(): Promise<string | null>;
+  write(data: string): Promise<void>;
+  remove(): Promise<void>;
+}
+
+/**
+ * Write a file via a temp file and rename, so readers never see a partial
+ * write and a crash leaves the previous contents in place
+ */
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`
+  );
+
+  const handle = await fs.open(tempPath, 'w', 0o600);
+  try {
+    await handle.writeFile(data);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  try {
+    await fs.rename(tempPath, filePath);
+    await fs.chmod(filePath, 0o600);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+async function readFileIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export class FileTokenStore implements TokenStore {
+  constructor(private readonly filePath: string) {}
+
+  get description() {
+    return this.filePath;
+  }
+
+  async read() {
+    return readFileIfExists(this.filePath);
+  }
+
+  async write(data: string) {
+    await writeFileAtomic(this.filePath, data);
+  }
+
+  async remove() {
+    await fs.rm(this.filePath, { force: true });
+  }
+}
+
+interface EncryptedPayload {
+  version: 1;
+  algorithm: 'aes-256-gcm';
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export class EncryptedFileTokenStore implements TokenStore {
+  private secret?: string;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly getSecret: () => Promise<string>
+  ) {}
+
+  get description() {
+    return `${this.filePath} (encrypted)`;
+  }
+
+  private async resolveSecret() {
+    if (!this.secret) {
+      this.secret = await this.getSecret();
+      if (!this.secret) {
+        throw new Error('An encryption secret is required for the encrypted token store');
+      }
+    }
+    return this.secret;
+  }
+
+  private async deriveKey(salt: Buffer) {
+    const secret = await this.resolveSecret();
+    return new Promise<Buffer>((resolve, reject) => {
+      crypto.scrypt(secret, salt, 32, (error, key) => (error ? reject(error) : resolve(key)));
+    });
+  }
+
+  async read() {
+    const raw = await readFileIfExists(this.filePath);
+    if (raw === null) {
+      return null;
+    }
+
+    const payload = JSON.parse(raw) as EncryptedPayload;
+    if (payload.version !== 1 || payload.algorithm !== 'aes-256-gcm') {
+      throw new Error(`Unsupported encrypted credentials format in ${this.filePath}`);
+    }
+
+    const key = await this.deriveKey(Buffer.from(payload.salt, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(payload.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+
+    try {
+      return Buffer.concat([
+        decipher.update(Buffer.from(payload.data, 'base64')),
+        decipher.final(),
+      ]).toString('utf-8');
+    } catch {
+      throw new Error(`Could not decrypt ${this.filePath} - wrong secret or corrupted file`);
+    }
+  }
+
+  async write(data: string) {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = await this.deriveKey(salt);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const encrypted = Buffer.concat([cipher.update(data, 'utf-8'), cipher.final()]);
+
+    const payload: EncryptedPayload = {
+      version: 1,
+      algorithm: 'aes-256-gcm',
+      kdf: 'scrypt',
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: encrypted.toString('base64'),
+    };
+
+    await writeFileAtomic(this.filePath, JSON.stringify(payload, null, 2));
+  }
+
+  async remove() {
+    await fs.rm(this.filePath, { force: true });
+  }
+}
+
+function runCommand(command: string, input?: string): Promise<{ code: number; stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, { shell: true, stdio: ['pipe', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (chunk) => (stdout += chunk));
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+    child.on('error', reject);
+    child.on('close', (code) => resolve({ code: code ?? 1, stdout, stderr }));
+
+    // A command that exits without reading stdin reports failure via its exit code
+    child.stdin.on('error', () => {});
+    child.stdin.end(input ?? '');
+  });
+}
+
+/**
+ * Delegates storage to local commands. The read command prints the stored
+ * document (exiting non-zero or printing nothing when there is none), the
+ * write command receives it on stdin and the optional delete command removes it.
+ * The document is never put on a command line, where `ps` would show it.
+ */
+export class CommandTokenStore implements TokenStore {
+  constructor(
+    private readonly readCommand: string,
+    private readonly writeCommand: string,
+    private readonly deleteCommand?: string
+  ) {}
+
+  // The commands may embed secrets or account names, so they are never shown
+  get description() {
+    return 'the command token store';
+  }
+
+  async read() {
+    const result = await runCommand(this.readCommand);
+    const output = result.stdout.trim();
+    return result.code === 0 && output ? output : null;
+  }
+
+  async write(data: string) {
+    const result = await runCommand(this.writeCommand, data);
+    if (result.code !== 0) {
+      throw new Error(`Token write command failed (exit ${result.code}): ${result.stderr.trim()}`);
+    }
+  }
+
+  async remove() {
+    if (!this.deleteCommand) {
+      throw new Error('XERO_TOKEN_DELETE_COMMAND is not set - remove the stored tokens manually');
+    }
+    const result = await runCommand(this.deleteCommand);
+    if (result.code !== 0) {
+      throw new Error(`Token delete command failed (exit ${result.code}): ${result.stderr.trim()}`);
+    }
+  }
+}
+
+/**
+ * Ask for the passphrase on the terminal without echoing it
+ */
+async function promptForPassphrase(): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error('XERO_TOKEN_SECRET must be set to use the encrypted token store non-interactively');
+  }
+
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) {
+        process.stdout.write(chunk, encoding);
+      }
+      callback();
+    },
+  });
+
+  const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+  try {
+    const question = rl.question('Credentials passphrase: ');
+    muted = true;
+    const passphrase = await question;
+    process.stdout.write('\n');
+    return passphrase;
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Create the token store configured in the environment
+ */
+export function createTokenStore(env: NodeJS.ProcessEnv = process.env): TokenStore {
+  const backend = env.XERO_TOKEN_STORE || 'file';
+
+  switch (backend) {
+    case 'file':
+      return new FileTokenStore(env.XERO_CREDENTIALS_PATH || path.join(process.cwd(), 'credentials.json'));
+
+    case 'encrypted':
+      return new EncryptedFileTokenStore(
+        env.XERO_CREDENTIALS_PATH || path.join(process.cwd(), 'credentials.enc.json'),
+        async () => env.XERO_TOKEN_SECRET || promptForPassphrase()
+      );
+
+    case 'command':
+      if (!env.XERO_TOKEN_READ_COMMAND || !env.XERO_TOKEN_WRITE_COMMAND) {
+        throw new Error('XERO_TOKEN_READ_COMMAND and XERO_TOKEN_WRITE_COMMAND must be set for the command token store');
+      }
+      return new CommandTokenStore(
+        env.XERO_TOKEN_READ_COMMAND,
+        env.XERO_TOKEN_WRITE_COMMAND,
+        env.XERO_TOKEN_DELETE_COMMAND
+      );
+
+    default:
+      throw new Error(`Unknown XERO_TOKEN_STORE "${backend}" - use file, encrypted or command`);
+  }
+}
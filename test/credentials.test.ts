@@ -0,0 +1,160 @@
+import { test, describe, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  loadCredentials,
+  removeProfile,
+  resolveProfile,
+  saveCredentials,
+  saveTokenSet,
+  toProfileName,
+} from '../lib/credentials.js';
+import { FileTokenStore } from '../lib/token-store.js';
+
+const ACME = { tenantId: 'tenant-acme', tenantName: 'Acme Corp' };
+const BAKERY = { tenantId: 'tenant-bakery', tenantName: "Sarah's Bakery" };
+
+let dir: string;
+let store: FileTokenStore;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'xero-credentials-'));
+  store = new FileTokenStore(path.join(dir, 'credentials.json'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('toProfileName', () => {
+  test('slugifies organisation names', () => {
+    assert.equal(toProfileName({ tenantId: 'a', tenantName: 'Acme Corp Ltd' }), 'acme-corp-ltd');
+    assert.equal(toProfileName({ tenantId: 'b', tenantName: "Sarah's Bakery!" }), 'sarah-s-bakery');
+  });
+
+  test('adds the tenant ID when the name is taken by another organisation', () => {
+    const taken = { 'acme-pty-ltd': { tenantId: '0f8fad5b-d9cb-469f', tenantName: 'Acme Pty Ltd' } };
+
+    assert.equal(
+      toProfileName({ tenantId: '7c9e6679-7425-40de', tenantName: 'Acme Pty. Ltd.' }, taken),
+      'acme-pty-ltd-7c9e6679'
+    );
+  });
+
+  test('keeps the existing name for an organisation that already has a profile', () => {
+    const taken = { books: { tenantId: '0f8fad5b-d9cb-469f', tenantName: 'Acme Pty Ltd' } };
+    assert.equal(toProfileName({ tenantId: '0f8fad5b-d9cb-469f', tenantName: 'Acme Pty Ltd' }, taken), 'books');
+  });
+
+  test('uses the tenant ID for names without Latin letters or digits', () => {
+    assert.equal(toProfileName({ tenantId: '9B2E4C1A-0000', tenantName: '株式会社' }), 'org-9b2e4c1a');
+  });
+});
+
+describe('loadCredentials', () => {
+  test('returns null when nothing is saved', async () => {
+    assert.equal(await loadCredentials(store), null);
+  });
+
+  test('upgrades the single-tenant format to a default profile', async () => {
+    await store.write(JSON.stringify({ tokenSet: { refresh_token: 'r' }, tenantId: 'legacy', updatedAt: '2025-01-01T00:00:00Z' }));
+
+    const credentials = await loadCredentials(store);
+
+    assert.equal(credentials?.defaultProfile, 'default');
+    assert.deepEqual(credentials?.profiles.default, { tenantId: 'legacy', tenantName: 'legacy' });
+    assert.deepEqual(credentials?.tokenSet, { refresh_token: 'r' });
+  });
+});
+
+describe('saveCredentials', () => {
+  test('merges profiles and keeps the existing default', async () => {
+    await saveCredentials({ refresh_token: 'first' }, { acme: ACME }, store);
+    const credentials = await saveCredentials({ refresh_token: 'second' }, { bakery: BAKERY }, store);
+
+    assert.deepEqual(Object.keys(credentials.profiles), ['acme', 'bakery']);
+    assert.equal(credentials.defaultProfile, 'acme');
+    assert.equal(credentials.tenantId, ACME.tenantId);
+    assert.deepEqual((await loadCredentials(store))?.tokenSet, { refresh_token: 'second' });
+  });
+
+  test('refuses to replace a profile that belongs to another tenant', async () => {
+    await saveCredentials({ refresh_token: 'first' }, { acme: ACME }, store);
+
+    await assert.rejects(
+      saveCredentials({ refresh_token: 'second' }, { acme: BAKERY }, store),
+      /Profile "acme" already belongs to Acme Corp \(tenant-acme\)/
+    );
+    assert.deepEqual((await loadCredentials(store))?.profiles.acme, ACME);
+  });
+});
+
+describe('saveTokenSet', () => {
+  test('replaces the token set and keeps the profiles', async () => {
+    await saveCredentials({ refresh_token: 'old' }, { acme: ACME, bakery: BAKERY }, store);
+
+    await saveTokenSet({ refresh_token: 'rotated' }, store);
+
+    const credentials = await loadCredentials(store);
+    assert.deepEqual(credentials?.tokenSet, { refresh_token: 'rotated' });
+    assert.deepEqual(Object.keys(credentials!.profiles), ['acme', 'bakery']);
+  });
+
+  test('fails when nothing has been saved yet', async () => {
+    await assert.rejects(saveTokenSet({}, store), /run npm run auth first/);
+  });
+});
+
+describe('removeProfile', () => {
+  test('moves the default to a remaining profile', async () => {
+    await saveCredentials({ refresh_token: 'r' }, { acme: ACME, bakery: BAKERY }, store);
+
+    const remaining = await removeProfile('acme', store);
+
+    assert.equal(remaining?.defaultProfile, 'bakery');
+    assert.equal(remaining?.tenantId, BAKERY.tenantId);
+  });
+
+  test('deletes the stored credentials with the last profile', async () => {
+    await saveCredentials({ refresh_token: 'r' }, { acme: ACME }, store);
+
+    assert.equal(await removeProfile('acme', store), null);
+    assert.equal(await store.read(), null);
+  });
+});
+
+describe('resolveProfile', () => {
+  test('selects by profile name, tenant ID or organisation name', async () => {
+    const credentials = await saveCredentials({}, { acme: ACME, bakery: BAKERY }, store);
+
+    assert.equal(resolveProfile(credentials, 'bakery').name, 'bakery');
+    assert.equal(resolveProfile(credentials, 'tenant-bakery').name, 'bakery');
+    assert.equal(resolveProfile(credentials, "sarah's bakery").name, 'bakery');
+  });
+
+  test('falls back to XERO_PROFILE and then the default profile', async () => {
+    const credentials = await saveCredentials({}, { acme: ACME, bakery: BAKERY }, store);
+    const original = process.env.XERO_PROFILE;
+
+    try {
+      process.env.XERO_PROFILE = 'bakery';
+      assert.equal(resolveProfile(credentials).name, 'bakery');
+
+      delete process.env.XERO_PROFILE;
+      assert.equal(resolveProfile(credentials).name, 'acme');
+    } finally {
+      if (original === undefined) {
+        delete process.env.XERO_PROFILE;
+      } else {
+        process.env.XERO_PROFILE = original;
+      }
+    }
+  });
+
+  test('lists the available profiles for an unknown selector', async () => {
+    const credentials = await saveCredentials({}, { acme: ACME }, store);
+    assert.throws(() => resolveProfile(credentials, 'nope'), /Unknown Xero profile "nope". Available profiles: acme/);
+  });
+});
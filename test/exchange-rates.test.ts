@@ -0,0 +1,41 @@
+import { test, describe, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { loadExchangeRates } from '../.claude/skills/xero-quote/lib/exchange-rates.js';
+
+let dir: string;
+let file: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'exchange-rates-'));
+  file = path.join(dir, 'exchange-rates.json');
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('loadExchangeRates', () => {
+  test('returns null when there is no rates file', async () => {
+    assert.equal(await loadExchangeRates(file), null);
+  });
+
+  test('reads the base currency, date and rates', async () => {
+    await fs.writeFile(file, JSON.stringify({ base: 'sgd', date: '2025-11-06', rates: { usd: 1.35, AUD: 0.88 } }));
+
+    assert.deepEqual(await loadExchangeRates(file), { base: 'SGD', date: '2025-11-06', rates: { USD: 1.35, AUD: 0.88 } });
+  });
+
+  test('explains what is wrong with a bad rates file', async () => {
+    await fs.writeFile(file, '{"base": "SGD",');
+    await assert.rejects(loadExchangeRates(file), /is not valid JSON/);
+
+    await fs.writeFile(file, JSON.stringify({ rates: { USD: 1.35 } }));
+    await assert.rejects(loadExchangeRates(file), /needs a "base" currency code/);
+
+    await fs.writeFile(file, JSON.stringify({ base: 'SGD', rates: { USD: '1.35' } }));
+    await assert.rejects(loadExchangeRates(file), /invalid rate for "USD"/);
+  });
+});
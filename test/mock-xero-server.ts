@@ -0,0 +1,1017 @@
+/**
+ * Mock Xero Server - A local stand-in for identity.xero.com and api.xero.com
+ *
+ * Covers OpenID discovery, authorization (auto-consent with PKCE), token
+ * exchange, refresh and revocation, /connections, and the Contacts, Quotes,
+ * Invoices, Items, Accounts, TaxRates, TrackingCategories, Currencies and
+ * Organisation accounting endpoints, each checked against the token's scopes.
+ * Validation errors, 401/403 and 429 responses follow the shapes Xero returns.
+ *
+ * Point the OAuth helper at it with XERO_IDENTITY_URL and XERO_API_URL, and
+ * xero-node's AccountingApi with `accountingApi.basePath = `${url}/api.xro/2.0``.
+ */
+
+import * as http from 'http';
+import * as crypto from 'crypto';
+import type { AddressInfo } from 'net';
+
+export interface MockTenant {
+  tenantId: string;
+  tenantName: string;
+}
+
+export interface MockXeroOptions {
+  clientId?: string;
+  clientSecret?: string;
+  tenants?: MockTenant[];
+  accessTokenLifetimeSeconds?: number;
+}
+
+export interface MockXeroServer {
+  url: string;
+  state: MockXeroState;
+  /** Make the next `count` API requests fail with `status` (429 includes Retry-After) */
+  failNext(status: number, count?: number): void;
+  /** Expire every issued access token, as if 30 minutes had passed */
+  expireAccessTokens(): void;
+  close(): Promise<void>;
+}
+
+interface TenantData {
+  contacts: any[];
+  quotes: any[];
+  invoices: any[];
+  items: any[];
+  taxRates: any[];
+  accounts: any[];
+  trackingCategories: any[];
+  baseCurrency: string;
+  /** Enabled currencies, including the base currency */
+  currencies: any[];
+  requestTimes: number[];
+}
+
+export interface MockXeroState {
+  connections: any[];
+  authCodes: Map<string, { redirectUri: string; scope: string; codeChallenge?: string; nonce?: string }>;
+  accessTokens: Map<string, { expiresAt: number; scope: string }>;
+  refreshTokens: Map<string, { scope: string }>;
+  tenantData: Map<string, TenantData>;
+  idempotentResponses: Map<string, { status: number; body: any }>;
+  requests: Array<{ method: string; path: string }>;
+}
+
+export const MOCK_CLIENT_ID = 'mock-client-id';
+export const MOCK_CLIENT_SECRET = 'mock-client-secret';
+export const MOCK_REDIRECT_URI = 'http://localhost:3000/callback';
+/** The scopes `npm run auth` asks for */
+export const MOCK_SCOPES = 'offline_access accounting.transactions accounting.contacts accounting.settings.read';
+
+// The scope each accounting resource needs; its .read variant is enough for GET
+const RESOURCE_SCOPES: Record<string, string> = {
+  Contacts: 'accounting.contacts',
+  Quotes: 'accounting.transactions',
+  Invoices: 'accounting.transactions',
+  Items: 'accounting.settings',
+  Accounts: 'accounting.settings',
+  TaxRates: 'accounting.settings',
+  TrackingCategories: 'accounting.settings',
+  Currencies: 'accounting.settings',
+  Organisation: 'accounting.settings',
+};
+
+// Accounting API calls Xero allows per tenant per minute before 429
+const RATE_LIMIT_PER_MINUTE = 60;
+
+export const DEFAULT_TENANTS: MockTenant[] = [
+  { tenantId: '11111111-1111-4111-8111-111111111111', tenantName: 'Acme Corp' },
+  { tenantId: '22222222-2222-4222-8222-222222222222', tenantName: "Sarah's Bakery" },
+];
+
+const DEFAULT_TAX_RATES = [
+  { Name: 'GST on Income', TaxType: 'OUTPUT', EffectiveRate: 9, Status: 'ACTIVE', CanApplyToRevenue: true },
+  { Name: 'Zero Rated Supplies', TaxType: 'ZERORATEDOUTPUT', EffectiveRate: 0, Status: 'ACTIVE', CanApplyToRevenue: true },
+  { Name: 'No GST', TaxType: 'NONE', EffectiveRate: 0, Status: 'ACTIVE', CanApplyToRevenue: true },
+];
+
+const DEFAULT_ITEMS = [
+  {
+    Code: 'CONSULT',
+    Name: 'Consulting',
+    Description: 'Consulting (per hour)',
+    IsSold: true,
+    SalesDetails: { UnitPrice: 150, AccountCode: '200', TaxType: 'OUTPUT' },
+  },
+  {
+    Code: 'HOSTING',
+    Name: 'Hosting',
+    Description: 'Hosting Setup (annual)',
+    IsSold: true,
+    SalesDetails: { UnitPrice: 250, AccountCode: '200', TaxType: 'OUTPUT' },
+  },
+];
+
+const DEFAULT_CURRENCIES = [
+  { Code: 'SGD', Description: 'Singapore Dollar' },
+  { Code: 'USD', Description: 'United States Dollar' },
+  { Code: 'AUD', Description: 'Australian Dollar' },
+];
+
+const DEFAULT_ACCOUNTS = [
+  { Code: '090', Name: 'Business Bank Account', Type: 'BANK', Class: 'ASSET', TaxType: 'NONE', Status: 'ACTIVE' },
+  { Code: '200', Name: 'Sales', Type: 'REVENUE', Class: 'REVENUE', TaxType: 'OUTPUT', Status: 'ACTIVE' },
+  { Code: '210', Name: 'Export Sales', Type: 'REVENUE', Class: 'REVENUE', TaxType: 'ZERORATEDOUTPUT', Status: 'ACTIVE' },
+  { Code: '250', Name: 'Old Sales', Type: 'REVENUE', Class: 'REVENUE', TaxType: 'OUTPUT', Status: 'ARCHIVED' },
+  { Code: '260', Name: 'Other Revenue', Type: 'OTHERINCOME', Class: 'REVENUE', TaxType: 'OUTPUT', Status: 'ACTIVE' },
+];
+
+const DEFAULT_TRACKING_CATEGORIES = [
+  {
+    Name: 'Region',
+    Status: 'ACTIVE',
+    Options: [
+      { Name: 'North', Status: 'ACTIVE' },
+      { Name: 'South', Status: 'ACTIVE' },
+      { Name: 'West', Status: 'ARCHIVED' },
+    ],
+  },
+  {
+    Name: 'Project',
+    Status: 'ACTIVE',
+    Options: [
+      { Name: 'Website', Status: 'ACTIVE' },
+      { Name: 'Retainer', Status: 'ACTIVE' },
+    ],
+  },
+];
+
+// Status changes Xero accepts when a quote is updated
+const QUOTE_STATUS_TRANSITIONS: Record<string, string[]> = {
+  DRAFT: ['SENT', 'DELETED'],
+  SENT: ['ACCEPTED', 'DECLINED', 'DELETED'],
+  ACCEPTED: ['SENT', 'INVOICED'],
+  DECLINED: ['SENT', 'DELETED'],
+  INVOICED: [],
+  DELETED: [],
+};
+
+const QUOTES_PAGE_SIZE = 100;
+
+function msDate(date: Date): string {
+  return `/Date(${date.getTime()}+0000)/`;
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: any,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(`HTTP ${status}`);
+  }
+}
+
+function problem(status: number, title: string, detail: string): HttpError {
+  return new HttpError(status, { Type: null, Title: title, Status: status, Detail: detail, Instance: crypto.randomUUID(), Extensions: {} });
+}
+
+function validationException(elements: any[]): HttpError {
+  return new HttpError(400, {
+    ErrorNumber: 10,
+    Type: 'ValidationException',
+    Message: 'A validation exception occurred',
+    Elements: elements,
+  });
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Match Xero's `where` filter for the simple `Field=="value"` and
+ * `Field.ToLower()=="value"` forms, joined with AND
+ */
+function matchesWhere(record: any, where: string | null): boolean {
+  if (!where) {
+    return true;
+  }
+
+  // Split on AND/OR outside double-quoted values; AND binds tighter, as in Xero
+  const outsideQuotes = '(?=(?:[^"]*"[^"]*")*[^"]*$)';
+  return where.split(new RegExp(`\\s+OR\\s+${outsideQuotes}`, 'i')).some((alternative) =>
+    alternative.split(new RegExp(`\\s+AND\\s+${outsideQuotes}`, 'i')).every((clause) => {
+      const match = clause.trim().match(/^(\w+)(\.ToLower\(\))?\s*==\s*"(.*)"$/);
+      if (!match) {
+        throw validationException([{ ValidationErrors: [{ Message: `Unsupported where clause: ${clause}` }] }]);
+      }
+      const [, field, toLower, value] = match;
+      const actual = String(record[field] ?? '');
+      const expected = value.replace(/\\(.)/g, '$1');
+      return toLower ? actual.toLowerCase() === expected : actual === expected;
+    })
+  );
+}
+
+export async function startMockXeroServer(options: MockXeroOptions = {}): Promise<MockXeroServer> {
+  const clientId = options.clientId ?? MOCK_CLIENT_ID;
+  const clientSecret = options.clientSecret ?? MOCK_CLIENT_SECRET;
+  const tenants = options.tenants ?? DEFAULT_TENANTS;
+  const accessTokenLifetime = options.accessTokenLifetimeSeconds ?? 1800;
+
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const keyId = crypto.randomBytes(8).toString('hex');
+  const pendingFailures: number[] = [];
+
+  const state: MockXeroState = {
+    connections: [],
+    authCodes: new Map(),
+    accessTokens: new Map(),
+    refreshTokens: new Map(),
+    tenantData: new Map(),
+    idempotentResponses: new Map(),
+    requests: [],
+  };
+
+  for (const tenant of tenants) {
+    state.tenantData.set(tenant.tenantId, {
+      contacts: [],
+      quotes: [],
+      invoices: [],
+      items: DEFAULT_ITEMS.map((item) => ({ ...item, ItemID: crypto.randomUUID() })),
+      taxRates: DEFAULT_TAX_RATES.map((rate) => ({ ...rate })),
+      accounts: DEFAULT_ACCOUNTS.map((account) => ({ ...account, AccountID: crypto.randomUUID() })),
+      trackingCategories: DEFAULT_TRACKING_CATEGORIES.map((category) => ({
+        ...category,
+        TrackingCategoryID: crypto.randomUUID(),
+        Options: category.Options.map((option) => ({ ...option, TrackingOptionID: crypto.randomUUID() })),
+      })),
+      baseCurrency: 'SGD',
+      currencies: DEFAULT_CURRENCIES.map((currency) => ({ ...currency })),
+      requestTimes: [],
+    });
+  }
+
+  let baseUrl = '';
+
+  function signIdToken(claims: Record<string, unknown>): string {
+    const header = Buffer.from(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: keyId })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+    return `${header}.${payload}.${signature}`;
+  }
+
+  function issueTokens(scope: string, nonce?: string, includeIdToken = true) {
+    const now = Math.floor(Date.now() / 1000);
+    const accessToken = randomToken();
+    const refreshToken = randomToken();
+
+    state.accessTokens.set(accessToken, { expiresAt: now + accessTokenLifetime, scope });
+    state.refreshTokens.set(refreshToken, { scope });
+
+    const response: Record<string, unknown> = {
+      access_token: accessToken,
+      expires_in: accessTokenLifetime,
+      token_type: 'Bearer',
+      refresh_token: refreshToken,
+      scope,
+    };
+
+    if (includeIdToken && scope.split(' ').includes('openid')) {
+      response.id_token = signIdToken({
+        iss: baseUrl,
+        aud: clientId,
+        sub: 'mock-user',
+        iat: now,
+        nbf: now,
+        exp: now + 300,
+        auth_time: now,
+        email: 'user@example.com',
+        ...(nonce ? { nonce } : {}),
+      });
+    }
+
+    return response;
+  }
+
+  function authenticateClient(req: http.IncomingMessage, form: URLSearchParams) {
+    let id = form.get('client_id');
+    let secret = form.get('client_secret');
+
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Basic ')) {
+      const decoded = Buffer.from(authorization.slice(6), 'base64').toString('utf-8');
+      const separator = decoded.indexOf(':');
+      id = decodeURIComponent(decoded.slice(0, separator));
+      secret = decodeURIComponent(decoded.slice(separator + 1));
+    }
+
+    if (id !== clientId || secret !== clientSecret) {
+      throw new HttpError(401, { error: 'invalid_client' });
+    }
+  }
+
+  function authenticateBearer(req: http.IncomingMessage) {
+    const token = req.headers.authorization?.replace(/^Bearer /, '');
+    const record = token ? state.accessTokens.get(token) : undefined;
+    if (!record || record.expiresAt * 1000 <= Date.now()) {
+      throw problem(401, 'Unauthorized', 'AuthenticationUnsuccessful');
+    }
+    return record;
+  }
+
+  function applyPendingFailure() {
+    const status = pendingFailures.shift();
+    if (status === 429) {
+      throw new HttpError(429, 'Rate limit exceeded', { 'Retry-After': '1', 'X-Rate-Limit-Problem': 'minute' });
+    }
+    if (status !== undefined) {
+      throw problem(status, http.STATUS_CODES[status] ?? 'Error', 'Simulated failure');
+    }
+  }
+
+  function enforceRateLimit(data: TenantData) {
+    const now = Date.now();
+    data.requestTimes = data.requestTimes.filter((time) => now - time < 60000);
+
+    if (data.requestTimes.length >= RATE_LIMIT_PER_MINUTE) {
+      const retryAfter = Math.ceil((60000 - (now - data.requestTimes[0])) / 1000);
+      throw new HttpError(429, 'Rate limit exceeded', {
+        'Retry-After': String(retryAfter),
+        'X-Rate-Limit-Problem': 'minute',
+      });
+    }
+
+    data.requestTimes.push(now);
+  }
+
+  // ---- Identity ----
+
+  function handleDiscovery() {
+    return {
+      issuer: baseUrl,
+      authorization_endpoint: `${baseUrl}/connect/authorize`,
+      token_endpoint: `${baseUrl}/connect/token`,
+      revocation_endpoint: `${baseUrl}/connect/revocation`,
+      jwks_uri: `${baseUrl}/.well-known/openid-configuration/jwks`,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code', 'refresh_token'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+      code_challenge_methods_supported: ['S256', 'plain'],
+    };
+  }
+
+  function handleJwks() {
+    return { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: keyId, use: 'sig', alg: 'RS256' }] };
+  }
+
+  /**
+   * Auto-consent: connect every tenant and redirect straight back with a code
+   */
+  function handleAuthorize(query: URLSearchParams, res: http.ServerResponse) {
+    const redirectUri = query.get('redirect_uri');
+    if (query.get('client_id') !== clientId || !redirectUri) {
+      throw new HttpError(400, { error: 'invalid_request', error_description: 'Unknown client or missing redirect_uri' });
+    }
+
+    const redirect = new URL(redirectUri);
+    if (query.get('response_type') !== 'code') {
+      redirect.searchParams.set('error', 'unsupported_response_type');
+    } else {
+      const code = randomToken();
+      state.authCodes.set(code, {
+        redirectUri,
+        scope: query.get('scope') ?? '',
+        codeChallenge: query.get('code_challenge') ?? undefined,
+        nonce: query.get('nonce') ?? undefined,
+      });
+      redirect.searchParams.set('code', code);
+      redirect.searchParams.set('scope', query.get('scope') ?? '');
+    }
+    if (query.get('state')) {
+      redirect.searchParams.set('state', query.get('state')!);
+    }
+
+    const now = new Date().toISOString();
+    for (const tenant of tenants) {
+      if (!state.connections.some((connection) => connection.tenantId === tenant.tenantId)) {
+        state.connections.push({
+          id: crypto.randomUUID(),
+          authEventId: crypto.randomUUID(),
+          tenantId: tenant.tenantId,
+          tenantType: 'ORGANISATION',
+          tenantName: tenant.tenantName,
+          createdDateUtc: now,
+          updatedDateUtc: now,
+        });
+      }
+    }
+
+    res.writeHead(302, { Location: redirect.toString() });
+    res.end();
+  }
+
+  function handleToken(req: http.IncomingMessage, form: URLSearchParams) {
+    authenticateClient(req, form);
+
+    switch (form.get('grant_type')) {
+      case 'authorization_code': {
+        const code = form.get('code') ?? '';
+        const grant = state.authCodes.get(code);
+        state.authCodes.delete(code);
+
+        if (!grant || grant.redirectUri !== form.get('redirect_uri')) {
+          throw new HttpError(400, { error: 'invalid_grant' });
+        }
+        if (grant.codeChallenge) {
+          const verifier = form.get('code_verifier') ?? '';
+          const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+          if (challenge !== grant.codeChallenge) {
+            throw new HttpError(400, { error: 'invalid_grant', error_description: 'Invalid code_verifier' });
+          }
+        }
+        return issueTokens(grant.scope, grant.nonce);
+      }
+
+      case 'refresh_token': {
+        const refreshToken = form.get('refresh_token') ?? '';
+        const grant = state.refreshTokens.get(refreshToken);
+        if (!grant) {
+          throw new HttpError(400, { error: 'invalid_grant' });
+        }
+        // Refresh tokens are single use - the old one stops working once rotated
+        state.refreshTokens.delete(refreshToken);
+        return issueTokens(grant.scope, undefined, false);
+      }
+
+      default:
+        throw new HttpError(400, { error: 'unsupported_grant_type' });
+    }
+  }
+
+  function handleRevocation(req: http.IncomingMessage, form: URLSearchParams) {
+    authenticateClient(req, form);
+    if (state.refreshTokens.delete(form.get('token') ?? '')) {
+      state.connections = [];
+      state.accessTokens.clear();
+    }
+    return {};
+  }
+
+  // ---- Connections ----
+
+  function handleConnections(method: string, connectionId: string | undefined, res: http.ServerResponse) {
+    if (method === 'GET' && !connectionId) {
+      return state.connections;
+    }
+
+    if (method === 'DELETE' && connectionId) {
+      const index = state.connections.findIndex((connection) => connection.id === connectionId);
+      if (index === -1) {
+        throw problem(404, 'Not Found', 'Connection not found');
+      }
+      state.connections.splice(index, 1);
+      res.writeHead(204);
+      res.end();
+      return undefined;
+    }
+
+    throw problem(405, 'Method Not Allowed', `${method} is not supported on /connections`);
+  }
+
+  // ---- Accounting ----
+
+  function taxRateFor(data: TenantData, taxType: string | undefined) {
+    return data.taxRates.find((rate) => rate.TaxType === (taxType ?? 'OUTPUT'));
+  }
+
+  /**
+   * Quotes use EXCLUSIVE/INCLUSIVE/NOTAX and invoices Exclusive/Inclusive/NoTax
+   */
+  function buildLineItem(data: TenantData, line: any, lineAmountTypes: string, errors: any[]) {
+    const mode = lineAmountTypes.toUpperCase();
+    const item = line.ItemCode ? data.items.find((candidate) => candidate.Code === line.ItemCode) : undefined;
+    if (line.ItemCode && !item) {
+      errors.push({ Message: `Item code '${line.ItemCode}' is not valid` });
+    }
+
+    const description = line.Description ?? item?.Description;
+    if (!description) {
+      errors.push({ Message: 'Description cannot be empty' });
+    }
+
+    const quantity = line.Quantity ?? 1;
+    const unitAmount = line.UnitAmount ?? item?.SalesDetails?.UnitPrice ?? 0;
+    if (typeof quantity !== 'number' || typeof unitAmount !== 'number' || Number.isNaN(quantity) || Number.isNaN(unitAmount)) {
+      errors.push({ Message: 'Quantity and UnitAmount must be numbers' });
+    }
+
+    const accountCode = line.AccountCode ?? item?.SalesDetails?.AccountCode ?? '200';
+    const account = data.accounts.find((candidate) => candidate.Code === accountCode);
+    if (!account || account.Status !== 'ACTIVE' || account.Type === 'BANK') {
+      errors.push({ Message: `Account code '${accountCode}' is not a valid code for this document.` });
+    }
+
+    for (const tracking of line.Tracking ?? []) {
+      const category = data.trackingCategories.find((candidate) => candidate.Name === tracking.Name && candidate.Status === 'ACTIVE');
+      const option = category?.Options.find((candidate: any) => candidate.Name === tracking.Option && candidate.Status === 'ACTIVE');
+      if (!option) {
+        errors.push({ Message: `The TrackingOption '${tracking.Option}' for TrackingCategory '${tracking.Name}' is not valid.` });
+      }
+    }
+
+    const taxType = line.TaxType ?? item?.SalesDetails?.TaxType ?? account?.TaxType;
+    const taxRate = mode === 'NOTAX' ? { EffectiveRate: 0 } : taxRateFor(data, taxType);
+    if (!taxRate) {
+      errors.push({ Message: `The TaxType code '${taxType}' does not exist or cannot be used for this type of transaction.` });
+    }
+
+    const discount = line.DiscountRate ?? 0;
+    const lineAmount = round2(quantity * unitAmount * (1 - discount / 100));
+    const rate = (taxRate?.EffectiveRate ?? 0) / 100;
+    const taxAmount =
+      mode === 'INCLUSIVE' ? round2(lineAmount - lineAmount / (1 + rate)) : round2(lineAmount * rate);
+
+    return {
+      LineItemID: crypto.randomUUID(),
+      Description: description,
+      Quantity: quantity,
+      UnitAmount: unitAmount,
+      ItemCode: line.ItemCode,
+      AccountCode: accountCode,
+      TaxType: mode === 'NOTAX' ? 'NONE' : taxType ?? 'OUTPUT',
+      TaxAmount: taxAmount,
+      LineAmount: lineAmount,
+      DiscountRate: line.DiscountRate,
+      Tracking: line.Tracking ?? [],
+    };
+  }
+
+  function checkCurrency(data: TenantData, currencyCode: string, errors: any[]) {
+    if (!data.currencies.some((currency) => currency.Code === currencyCode)) {
+      errors.push({ Message: `The currency code '${currencyCode}' is not enabled for this organisation.` });
+    }
+  }
+
+  function buildQuote(data: TenantData, input: any, existing?: any): { quote: any; errors: any[] } {
+    const errors: any[] = [];
+
+    const contactId = input.Contact?.ContactID ?? existing?.Contact?.ContactID;
+    const contact = data.contacts.find((candidate) => candidate.ContactID === contactId);
+    if (!contact) {
+      errors.push({ Message: contactId ? 'Contact could not be found' : 'A Contact must be specified for this type of transaction' });
+    }
+
+    const dateInput = input.Date ?? existing?.DateString?.slice(0, 10);
+    const date = dateInput ? new Date(`${String(dateInput).slice(0, 10)}T00:00:00Z`) : undefined;
+    if (!date || Number.isNaN(date.getTime())) {
+      errors.push({ Message: 'Date cannot be empty' });
+    }
+
+    const status = input.Status ?? existing?.Status ?? 'DRAFT';
+    if (existing && status !== existing.Status && !QUOTE_STATUS_TRANSITIONS[existing.Status]?.includes(status)) {
+      errors.push({ Message: `Quote status cannot be changed from ${existing.Status} to ${status}` });
+    }
+    if (existing && existing.Status !== 'DRAFT' && input.LineItems) {
+      errors.push({ Message: `Quotes with status ${existing.Status} cannot have their line items updated` });
+    }
+
+    const currencyCode = input.CurrencyCode ?? existing?.CurrencyCode ?? data.baseCurrency;
+    checkCurrency(data, currencyCode, errors);
+
+    const lineAmountTypes = input.LineAmountTypes ?? existing?.LineAmountTypes ?? 'EXCLUSIVE';
+    const lineInputs = input.LineItems ?? existing?.LineItems ?? [];
+    if (lineInputs.length === 0) {
+      errors.push({ Message: 'At least one line item must be specified' });
+    }
+    const lineItems = lineInputs.map((line: any) => buildLineItem(data, line, lineAmountTypes, errors));
+
+    const lineTotal = round2(lineItems.reduce((sum: number, line: any) => sum + line.LineAmount, 0));
+    const totalTax = round2(lineItems.reduce((sum: number, line: any) => sum + line.TaxAmount, 0));
+    const subTotal = lineAmountTypes.toUpperCase() === 'INCLUSIVE' ? round2(lineTotal - totalTax) : lineTotal;
+
+    // New quotes without a number get the next one when they are saved
+    const quoteNumber = existing?.QuoteNumber ?? input.QuoteNumber;
+
+    const quote = {
+      QuoteID: existing?.QuoteID ?? crypto.randomUUID(),
+      QuoteNumber: quoteNumber,
+      Reference: input.Reference ?? existing?.Reference,
+      Terms: input.Terms ?? existing?.Terms,
+      Contact: contact ? { ContactID: contact.ContactID, Name: contact.Name, EmailAddress: contact.EmailAddress } : input.Contact,
+      LineItems: lineItems,
+      Date: date && !Number.isNaN(date.getTime()) ? msDate(date) : undefined,
+      DateString: date && !Number.isNaN(date.getTime()) ? `${date.toISOString().slice(0, 10)}T00:00:00` : undefined,
+      ExpiryDate: input.ExpiryDate ?? existing?.ExpiryDate,
+      Status: status,
+      CurrencyCode: currencyCode,
+      CurrencyRate: 1,
+      SubTotal: subTotal,
+      TotalTax: totalTax,
+      Total: round2(subTotal + totalTax),
+      Title: input.Title ?? existing?.Title,
+      Summary: input.Summary ?? existing?.Summary,
+      LineAmountTypes: lineAmountTypes,
+      UpdatedDateUTC: msDate(new Date()),
+    };
+
+    return { quote, errors };
+  }
+
+  function saveQuotes(data: TenantData, body: any, summarizeErrors: boolean, isUpdate: boolean, pathId?: string) {
+    const results = (body?.Quotes ?? []).map((quoteInput: any) => {
+      // POST /Quotes/{QuoteID} names the quote in the path rather than the body
+      const input = pathId ? { ...quoteInput, QuoteID: quoteInput.QuoteID ?? pathId } : quoteInput;
+      const existing = input.QuoteID ? data.quotes.find((quote) => quote.QuoteID === input.QuoteID) : undefined;
+      if (input.QuoteID && !existing) {
+        return { quote: { ...input }, errors: [{ Message: 'Quote could not be found' }], existing };
+      }
+      if (existing && !isUpdate) {
+        return { quote: { ...input }, errors: [{ Message: 'QuoteID can only be supplied when updating (POST)' }], existing };
+      }
+      return { ...buildQuote(data, input, existing), existing };
+    });
+
+    const failed = results.filter((result: any) => result.errors.length > 0);
+    if (summarizeErrors && failed.length > 0) {
+      throw validationException(
+        failed.map((result: any) => ({ ...result.quote, ValidationErrors: result.errors }))
+      );
+    }
+
+    const quotes = results.map((result: any) => {
+      if (result.errors.length > 0) {
+        return { ...result.quote, StatusAttributeString: 'ERROR', ValidationErrors: result.errors };
+      }
+      if (result.existing) {
+        Object.assign(result.existing, result.quote);
+        return { ...result.existing, StatusAttributeString: 'OK' };
+      }
+      result.quote.QuoteNumber ??= `QU-${String(data.quotes.length + 1).padStart(4, '0')}`;
+      data.quotes.push(result.quote);
+      return { ...result.quote, StatusAttributeString: 'OK' };
+    });
+
+    return { Id: crypto.randomUUID(), Status: 'OK', DateTimeUTC: msDate(new Date()), Quotes: quotes };
+  }
+
+  function buildInvoice(data: TenantData, input: any): { invoice: any; errors: any[] } {
+    const errors: any[] = [];
+
+    if (input.Type !== 'ACCREC' && input.Type !== 'ACCPAY') {
+      errors.push({ Message: 'Invoice Type must be specified' });
+    }
+
+    const contactId = input.Contact?.ContactID;
+    const contact = data.contacts.find((candidate) => candidate.ContactID === contactId);
+    if (!contact) {
+      errors.push({ Message: contactId ? 'Contact could not be found' : 'A Contact must be specified for this type of transaction' });
+    }
+
+    const date = input.Date ? new Date(`${String(input.Date).slice(0, 10)}T00:00:00Z`) : new Date();
+    const dueDate = input.DueDate ? new Date(`${String(input.DueDate).slice(0, 10)}T00:00:00Z`) : undefined;
+    if (Number.isNaN(date.getTime()) || (dueDate && Number.isNaN(dueDate.getTime()))) {
+      errors.push({ Message: 'Date and DueDate must be valid dates' });
+    }
+
+    const currencyCode = input.CurrencyCode ?? data.baseCurrency;
+    checkCurrency(data, currencyCode, errors);
+
+    const lineAmountTypes = input.LineAmountTypes ?? 'Exclusive';
+    const lineInputs = input.LineItems ?? [];
+    if (lineInputs.length === 0) {
+      errors.push({ Message: 'At least one line item must be specified' });
+    }
+    const lineItems = lineInputs.map((line: any) => buildLineItem(data, line, lineAmountTypes, errors));
+
+    const lineTotal = round2(lineItems.reduce((sum: number, line: any) => sum + line.LineAmount, 0));
+    const totalTax = round2(lineItems.reduce((sum: number, line: any) => sum + line.TaxAmount, 0));
+    const subTotal = lineAmountTypes.toUpperCase() === 'INCLUSIVE' ? round2(lineTotal - totalTax) : lineTotal;
+    const valid = (value?: Date) => value && !Number.isNaN(value.getTime());
+
+    const invoice = {
+      InvoiceID: crypto.randomUUID(),
+      InvoiceNumber: `INV-${String(data.invoices.length + 1).padStart(4, '0')}`,
+      Type: input.Type,
+      Reference: input.Reference,
+      Contact: contact ? { ContactID: contact.ContactID, Name: contact.Name } : input.Contact,
+      LineItems: lineItems,
+      Date: valid(date) ? msDate(date) : undefined,
+      DateString: valid(date) ? `${date.toISOString().slice(0, 10)}T00:00:00` : undefined,
+      DueDate: valid(dueDate) ? msDate(dueDate!) : undefined,
+      DueDateString: valid(dueDate) ? `${dueDate!.toISOString().slice(0, 10)}T00:00:00` : undefined,
+      Status: input.Status ?? 'DRAFT',
+      LineAmountTypes: lineAmountTypes,
+      CurrencyCode: currencyCode,
+      CurrencyRate: 1,
+      SubTotal: subTotal,
+      TotalTax: totalTax,
+      Total: round2(subTotal + totalTax),
+      AmountDue: round2(subTotal + totalTax),
+      UpdatedDateUTC: msDate(new Date()),
+    };
+
+    return { invoice, errors };
+  }
+
+  function saveInvoices(data: TenantData, body: any, summarizeErrors: boolean) {
+    const results = (body?.Invoices ?? []).map((input: any) => buildInvoice(data, input));
+
+    const failed = results.filter((result: any) => result.errors.length > 0);
+    if (summarizeErrors && failed.length > 0) {
+      throw validationException(failed.map((result: any) => ({ ...result.invoice, ValidationErrors: result.errors })));
+    }
+
+    const invoices = results.map((result: any) => {
+      if (result.errors.length > 0) {
+        return { ...result.invoice, StatusAttributeString: 'ERROR', ValidationErrors: result.errors };
+      }
+      data.invoices.push(result.invoice);
+      return { ...result.invoice, StatusAttributeString: 'OK' };
+    });
+
+    return { Id: crypto.randomUUID(), Status: 'OK', DateTimeUTC: msDate(new Date()), Invoices: invoices };
+  }
+
+  function saveContacts(data: TenantData, body: any, summarizeErrors: boolean) {
+    const results = (body?.Contacts ?? []).map((input: any) => {
+      const errors: any[] = [];
+      const name = input.Name?.trim();
+      if (!name) {
+        errors.push({ Message: 'The Contact Name must be specified.' });
+      } else if (data.contacts.some((contact) => contact.Name.toLowerCase() === name.toLowerCase())) {
+        errors.push({
+          Message: `The contact name ${name} is already assigned to another contact. The contact name must be unique across all active contacts.`,
+        });
+      }
+      if (input.EmailAddress && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(input.EmailAddress)) {
+        errors.push({ Message: 'Email address must be valid.' });
+      }
+      return { input, errors };
+    });
+
+    const failed = results.filter((result: any) => result.errors.length > 0);
+    if (summarizeErrors && failed.length > 0) {
+      throw validationException(failed.map((result: any) => ({ ...result.input, ValidationErrors: result.errors })));
+    }
+
+    const contacts = results.map((result: any) => {
+      if (result.errors.length > 0) {
+        return { ...result.input, StatusAttributeString: 'ERROR', ValidationErrors: result.errors };
+      }
+      const contact = {
+        ContactID: crypto.randomUUID(),
+        ContactStatus: 'ACTIVE',
+        Name: result.input.Name.trim(),
+        EmailAddress: result.input.EmailAddress,
+        UpdatedDateUTC: msDate(new Date()),
+      };
+      data.contacts.push(contact);
+      return { ...contact, StatusAttributeString: 'OK' };
+    });
+
+    return { Id: crypto.randomUUID(), Status: 'OK', DateTimeUTC: msDate(new Date()), Contacts: contacts };
+  }
+
+  async function handleAccounting(
+    req: http.IncomingMessage,
+    method: string,
+    segments: string[],
+    query: URLSearchParams
+  ) {
+    const { scope } = authenticateBearer(req);
+    const required = RESOURCE_SCOPES[segments[0]];
+    const granted = scope.split(' ');
+    if (required && !granted.includes(required) && !(method === 'GET' && granted.includes(`${required}.read`))) {
+      throw problem(401, 'Unauthorized', 'AuthorizationUnsuccessful');
+    }
+
+    const tenantId = req.headers['xero-tenant-id'] as string | undefined;
+    const connected = state.connections.some((connection) => connection.tenantId === tenantId);
+    const data = tenantId ? state.tenantData.get(tenantId) : undefined;
+    if (!connected || !data) {
+      throw problem(403, 'Forbidden', 'AuthenticationUnsuccessful');
+    }
+
+    applyPendingFailure();
+    enforceRateLimit(data);
+
+    const idempotencyKey = req.headers['idempotency-key'] as string | undefined;
+    const replayKey = idempotencyKey ? `${tenantId}:${idempotencyKey}` : undefined;
+    if (replayKey && (method === 'PUT' || method === 'POST') && state.idempotentResponses.has(replayKey)) {
+      return state.idempotentResponses.get(replayKey)!.body;
+    }
+
+    const raw = method === 'PUT' || method === 'POST' ? await readBody(req) : '';
+    const body = raw ? JSON.parse(raw) : undefined;
+    const summarizeErrors = query.get('summarizeErrors') !== 'false';
+    const [resource, id] = segments;
+
+    let result: any;
+    if (resource === 'Contacts' && method === 'GET') {
+      const searchTerm = query.get('searchTerm')?.toLowerCase();
+      result = {
+        Contacts: data.contacts.filter(
+          (contact) =>
+            matchesWhere(contact, query.get('where')) &&
+            (!searchTerm || contact.Name.toLowerCase().includes(searchTerm) || contact.EmailAddress?.toLowerCase().includes(searchTerm))
+        ),
+      };
+    } else if (resource === 'Contacts' && (method === 'PUT' || method === 'POST')) {
+      result = saveContacts(data, body, summarizeErrors);
+    } else if (resource === 'Quotes' && method === 'GET' && id) {
+      const quote = data.quotes.find((candidate) => candidate.QuoteID === id);
+      if (!quote) {
+        throw problem(404, 'Not Found', `Quote ${id} could not be found`);
+      }
+      result = { Quotes: [quote] };
+    } else if (resource === 'Quotes' && method === 'GET') {
+      const page = Number(query.get('page') ?? 1);
+      const matching = data.quotes.filter(
+          (quote) =>
+            (!query.get('ContactID') || quote.Contact?.ContactID === query.get('ContactID')) &&
+            (!query.get('Status') || quote.Status === query.get('Status')) &&
+            (!query.get('QuoteNumber') || quote.QuoteNumber === query.get('QuoteNumber')) &&
+            (!query.get('DateFrom') || quote.DateString >= query.get('DateFrom')!) &&
+            (!query.get('DateTo') || quote.DateString.slice(0, 10) <= query.get('DateTo')!)
+      );
+      result = { Quotes: matching.slice((page - 1) * QUOTES_PAGE_SIZE, page * QUOTES_PAGE_SIZE) };
+    } else if (resource === 'Quotes' && (method === 'PUT' || method === 'POST')) {
+      result = saveQuotes(data, body, summarizeErrors, method === 'POST', id);
+    } else if (resource === 'Invoices' && method === 'GET' && id) {
+      const invoice = data.invoices.find((candidate) => candidate.InvoiceID === id);
+      if (!invoice) {
+        throw problem(404, 'Not Found', `Invoice ${id} could not be found`);
+      }
+      result = { Invoices: [invoice] };
+    } else if (resource === 'Invoices' && method === 'PUT') {
+      result = saveInvoices(data, body, summarizeErrors);
+    } else if (resource === 'Items' && method === 'GET') {
+      result = { Items: data.items.filter((item) => matchesWhere(item, query.get('where'))) };
+    } else if (resource === 'Organisation' && method === 'GET') {
+      const tenant = tenants.find((candidate) => candidate.tenantId === tenantId)!;
+      result = {
+        Organisations: [
+          { OrganisationID: tenant.tenantId, Name: tenant.tenantName, BaseCurrency: data.baseCurrency, OrganisationStatus: 'ACTIVE' },
+        ],
+      };
+    } else if (resource === 'Currencies' && method === 'GET') {
+      result = { Currencies: data.currencies.filter((currency) => matchesWhere(currency, query.get('where'))) };
+    } else if (resource === 'Accounts' && method === 'GET') {
+      result = { Accounts: data.accounts.filter((account) => matchesWhere(account, query.get('where'))) };
+    } else if (resource === 'TrackingCategories' && method === 'GET') {
+      const includeArchived = query.get('includeArchived') === 'true';
+      result = {
+        TrackingCategories: data.trackingCategories
+          .filter((category) => includeArchived || category.Status === 'ACTIVE')
+          .map((category) => ({
+            ...category,
+            Options: category.Options.filter((option: any) => includeArchived || option.Status === 'ACTIVE'),
+          })),
+      };
+    } else if (resource === 'TaxRates' && method === 'GET') {
+      result = { TaxRates: data.taxRates.filter((rate) => matchesWhere(rate, query.get('where'))) };
+    } else {
+      throw problem(404, 'Not Found', `The resource ${resource ?? ''} is not supported by the mock`);
+    }
+
+    if (replayKey && (method === 'PUT' || method === 'POST')) {
+      state.idempotentResponses.set(replayKey, { status: 200, body: result });
+    }
+    return result;
+  }
+
+  // ---- Routing ----
+
+  async function route(req: http.IncomingMessage, res: http.ServerResponse) {
+    const method = req.method ?? 'GET';
+    const reqUrl = new URL(req.url ?? '/', baseUrl);
+    const pathname = reqUrl.pathname;
+    state.requests.push({ method, path: pathname });
+
+    if (pathname === '/.well-known/openid-configuration') {
+      return handleDiscovery();
+    }
+    if (pathname === '/.well-known/openid-configuration/jwks') {
+      return handleJwks();
+    }
+    if (pathname === '/connect/authorize') {
+      return handleAuthorize(reqUrl.searchParams, res);
+    }
+    if (pathname === '/connect/token' && method === 'POST') {
+      return handleToken(req, new URLSearchParams(await readBody(req)));
+    }
+    if (pathname === '/connect/revocation' && method === 'POST') {
+      return handleRevocation(req, new URLSearchParams(await readBody(req)));
+    }
+
+    if (pathname === '/connections' || pathname.startsWith('/connections/')) {
+      authenticateBearer(req);
+      applyPendingFailure();
+      return handleConnections(method, pathname.split('/')[2], res);
+    }
+
+    if (pathname.startsWith('/api.xro/2.0/')) {
+      const segments = pathname.slice('/api.xro/2.0/'.length).split('/').filter(Boolean);
+      return handleAccounting(req, method, segments, reqUrl.searchParams);
+    }
+
+    throw problem(404, 'Not Found', `No mock route for ${method} ${pathname}`);
+  }
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      const body = await route(req, res);
+      if (!res.headersSent) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        const isJson = typeof error.body !== 'string';
+        res.writeHead(error.status, {
+          'Content-Type': isJson ? 'application/json' : 'text/plain',
+          ...error.headers,
+        });
+        res.end(isJson ? JSON.stringify(error.body) : error.body);
+      } else {
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url: baseUrl,
+    state,
+    failNext(status: number, count = 1) {
+      for (let i = 0; i < count; i++) {
+        pendingFailures.push(status);
+      }
+    },
+    expireAccessTokens() {
+      for (const record of state.accessTokens.values()) {
+        record.expiresAt = Math.floor(Date.now() / 1000) - 1;
+      }
+    },
+    close() {
+      return new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      });
+    },
+  };
+}
+
+/**
+ * Follow a consent URL to the mock's authorize endpoint and return the redirect
+ */
+export async function followConsentUrl(consentUrl: string | URL): Promise<string> {
+  const response = await fetch(consentUrl, { redirect: 'manual' });
+  if (response.status !== 302) {
+    throw new Error(`Expected a redirect from ${consentUrl}, got ${response.status}`);
+  }
+  return response.headers.get('location')!;
+}
+
+/**
+ * Run the authorization code flow against the mock and return the token set,
+ * with expires_at as the OAuth helper saves it
+ */
+export async function getMockTokens(mock: MockXeroServer, scope = MOCK_SCOPES): Promise<any> {
+  const consentUrl = new URL(`${mock.url}/connect/authorize`);
+  consentUrl.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: MOCK_CLIENT_ID,
+    redirect_uri: MOCK_REDIRECT_URI,
+    scope,
+  }).toString();
+  const code = new URL(await followConsentUrl(consentUrl)).searchParams.get('code')!;
+
+  const response = await fetch(`${mock.url}/connect/token`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${MOCK_CLIENT_ID}:${MOCK_CLIENT_SECRET}`).toString('base64')}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({ grant_type: 'authorization_code', code, redirect_uri: MOCK_REDIRECT_URI }),
+  });
+  const tokens: any = await response.json();
+  return { ...tokens, expires_at: Math.floor(Date.now() / 1000) + tokens.expires_in };
+}
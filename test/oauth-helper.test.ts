@@ -0,0 +1,325 @@
+import { test, describe, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  DEFAULT_TENANTS,
+  MOCK_CLIENT_ID,
+  MOCK_CLIENT_SECRET,
+  followConsentUrl,
+  startMockXeroServer,
+  type MockXeroServer,
+} from './mock-xero-server.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const TSX = path.join(ROOT, 'node_modules', '.bin', 'tsx');
+const HELPER = path.join(ROOT, 'lib', 'oauth-helper.ts');
+
+const [ACME, BAKERY] = DEFAULT_TENANTS;
+
+let mock: MockXeroServer;
+let dir: string;
+let credentialsPath: string;
+
+interface HelperRun {
+  child: ChildProcessWithoutNullStreams;
+  output: () => string;
+  waitForOutput: (pattern: RegExp) => Promise<RegExpMatchArray>;
+  exit: Promise<number>;
+}
+
+/**
+ * Run the OAuth helper in a child process against the mock server
+ */
+function runHelper(args: string[], env: Record<string, string> = {}): HelperRun {
+  const child = spawn(TSX, [HELPER, ...args], {
+    cwd: dir,
+    env: {
+      PATH: process.env.PATH,
+      XERO_CLIENT_ID: MOCK_CLIENT_ID,
+      XERO_CLIENT_SECRET: MOCK_CLIENT_SECRET,
+      XERO_IDENTITY_URL: mock.url,
+      XERO_API_URL: mock.url,
+      XERO_CREDENTIALS_PATH: credentialsPath,
+      ...env,
+    },
+  });
+
+  let output = '';
+  const listeners: Array<() => void> = [];
+  const onData = (chunk: Buffer) => {
+    output += chunk.toString();
+    listeners.forEach((listener) => listener());
+  };
+  child.stdout.on('data', onData);
+  child.stderr.on('data', onData);
+
+  const exit = new Promise<number>((resolve) => child.on('close', (code) => resolve(code ?? 1)));
+
+  return {
+    child,
+    output: () => output,
+    exit,
+    waitForOutput: (pattern) =>
+      new Promise((resolve, reject) => {
+        const check = () => {
+          const match = output.match(pattern);
+          if (match) {
+            resolve(match);
+          }
+        };
+        listeners.push(check);
+        exit.then(() => reject(new Error(`Helper exited before printing ${pattern}:\n${output}`)));
+        check();
+      }),
+  };
+}
+
+async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+async function readCredentials() {
+  return JSON.parse(await fs.readFile(credentialsPath, 'utf-8'));
+}
+
+/**
+ * Log in with --no-server and return the saved credentials
+ */
+async function login(args: string[] = ['--all']) {
+  const run = runHelper(['--no-server', ...args]);
+  const [consentUrl] = await run.waitForOutput(/http:\/\/127\.0\.0\.1:\d+\/connect\/authorize\S+/);
+  run.child.stdin.write(`${await followConsentUrl(consentUrl)}\n`);
+  assert.equal(await run.exit, 0, run.output());
+  return readCredentials();
+}
+
+before(async () => {
+  mock = await startMockXeroServer();
+});
+
+after(async () => {
+  await mock.close();
+});
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'xero-oauth-helper-'));
+  credentialsPath = path.join(dir, 'credentials.json');
+  mock.state.connections = [];
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('login', () => {
+  test('--no-server exchanges a pasted redirect URL and saves the chosen organisation', async () => {
+    const credentials = await login(['--tenant', BAKERY.tenantName]);
+
+    assert.deepEqual(Object.keys(credentials.profiles), ['sarah-s-bakery']);
+    assert.equal(credentials.tenantId, BAKERY.tenantId);
+    assert.ok(credentials.tokenSet.refresh_token);
+    assert.ok(credentials.profiles['sarah-s-bakery'].connectionId);
+    assert.equal((await fs.stat(credentialsPath)).mode & 0o777, 0o600);
+  });
+
+  test('sends the scopes, a PKCE challenge and state with the consent URL', async () => {
+    const run = runHelper(['--no-server', '--all']);
+    const [consentUrl] = await run.waitForOutput(/http:\/\/127\.0\.0\.1:\d+\/connect\/authorize\S+/);
+    run.child.kill();
+    await run.exit;
+
+    const params = new URL(consentUrl).searchParams;
+    assert.match(params.get('scope')!, /\baccounting\.settings\.read\b/);
+    assert.equal(params.get('code_challenge_method'), 'S256');
+    assert.ok(params.get('code_challenge'));
+    assert.ok(params.get('state'));
+  });
+
+  test('rejects a pasted URL with the wrong state', async () => {
+    const run = runHelper(['--no-server', '--all']);
+    const [consentUrl] = await run.waitForOutput(/http:\/\/127\.0\.0\.1:\d+\/connect\/authorize\S+/);
+    const redirect = new URL(await followConsentUrl(consentUrl));
+    redirect.searchParams.set('state', 'forged');
+    run.child.stdin.write(`${redirect}\n`);
+
+    assert.equal(await run.exit, 1);
+    assert.match(run.output(), /State mismatch/);
+  });
+
+  test('fails without --tenant when several organisations are connected and stdin is not a terminal', async () => {
+    const run = runHelper(['--no-server']);
+    const [consentUrl] = await run.waitForOutput(/http:\/\/127\.0\.0\.1:\d+\/connect\/authorize\S+/);
+    run.child.stdin.write(`${await followConsentUrl(consentUrl)}\n`);
+
+    assert.equal(await run.exit, 1);
+    assert.match(run.output(), /choose with --tenant <name\|id> or --all/);
+  });
+
+  test('listens on the redirect URI port and path and ignores stray callbacks', async () => {
+    const redirectUri = `http://127.0.0.1:${await freePort()}/xero/callback`;
+    const run = runHelper(['--all'], { XERO_REDIRECT_URI: redirectUri });
+    const [consentUrl] = await run.waitForOutput(/http:\/\/127\.0\.0\.1:\d+\/connect\/authorize\S+/);
+    await run.waitForOutput(/Callback server listening on/);
+
+    const stray = await fetch(`${redirectUri}?code=stolen&state=wrong`);
+    assert.equal(stray.status, 400);
+    assert.equal((await fetch(redirectUri.replace('/xero/callback', '/callback'))).status, 404);
+
+    const callback = await fetch(await followConsentUrl(consentUrl));
+    assert.equal(callback.status, 200);
+    assert.match(await callback.text(), /Authorization Successful/);
+
+    assert.equal(await run.exit, 0, run.output());
+    const credentials = await readCredentials();
+    assert.deepEqual(Object.keys(credentials.profiles), ['acme-corp', 'sarah-s-bakery']);
+    assert.equal(credentials.defaultProfile, 'acme-corp');
+  });
+
+  test('refuses an https redirect URI without --no-server', async () => {
+    const run = runHelper(['--all'], { XERO_REDIRECT_URI: 'https://localhost/callback' });
+    assert.equal(await run.exit, 1);
+    assert.match(run.output(), /only speaks plain HTTP/);
+  });
+});
+
+describe('status', () => {
+  test('exits 2 when there are no credentials', async () => {
+    const run = runHelper(['status']);
+    assert.equal(await run.exit, 2);
+    assert.match(run.output(), /No saved credentials/);
+  });
+
+  test('reports expiry, scopes and the connected organisation', async () => {
+    await login();
+
+    const run = runHelper(['status', '--profile', 'sarah-s-bakery']);
+    assert.equal(await run.exit, 0, run.output());
+
+    const output = run.output();
+    assert.match(output, /Organisation:\s+Sarah's Bakery/);
+    assert.match(output, /Access token:\s+valid until/);
+    assert.match(output, /Refresh token:\s+expires around .*\(in 60 days\)/);
+    assert.match(output, /Scopes:\s+.*accounting\.transactions/);
+    assert.match(output, /Connection:\s+connected as Sarah's Bakery/);
+  });
+
+  test('exits 2 when the organisation has been disconnected', async () => {
+    await login();
+    mock.state.connections = mock.state.connections.filter((connection) => connection.tenantId !== ACME.tenantId);
+
+    const run = runHelper(['status']);
+    assert.equal(await run.exit, 2);
+    assert.match(run.output(), /Acme Corp is no longer connected/);
+  });
+
+  test('refreshes an expired access token, saves it and checks the connection', async () => {
+    const before = await login();
+    before.tokenSet.expires_at = Math.floor(Date.now() / 1000) - 1;
+    await fs.writeFile(credentialsPath, JSON.stringify(before));
+
+    const run = runHelper(['status']);
+    assert.equal(await run.exit, 0, run.output());
+    assert.match(run.output(), /Access token:\s+refreshed, valid until/);
+    assert.match(run.output(), /Connection:\s+connected as Acme Corp/);
+
+    const after = await readCredentials();
+    assert.notEqual(after.tokenSet.refresh_token, before.tokenSet.refresh_token);
+    assert.ok(mock.state.refreshTokens.has(after.tokenSet.refresh_token));
+  });
+
+  test('exits 2 when the access token has expired and Xero rejects the refresh token', async () => {
+    const credentials = await login();
+    credentials.tokenSet.expires_at = Math.floor(Date.now() / 1000) - 1;
+    await fs.writeFile(credentialsPath, JSON.stringify(credentials));
+    mock.state.refreshTokens.delete(credentials.tokenSet.refresh_token);
+
+    const run = runHelper(['status']);
+    assert.equal(await run.exit, 2);
+    assert.match(run.output(), /Connection:\s+not checked/);
+    assert.match(run.output(), /Refresh token was rejected by Xero/);
+  });
+
+  test('exits 2 when the refresh token is older than 60 days', async () => {
+    const credentials = await login();
+    credentials.updatedAt = new Date(Date.now() - 61 * 24 * 60 * 60 * 1000).toISOString();
+    await fs.writeFile(credentialsPath, JSON.stringify(credentials));
+
+    const run = runHelper(['status']);
+    assert.equal(await run.exit, 2);
+    assert.match(run.output(), /Refresh token has expired/);
+  });
+});
+
+describe('refresh', () => {
+  test('rotates and persists the refresh token', async () => {
+    const before = await login();
+
+    const run = runHelper(['refresh']);
+    assert.equal(await run.exit, 0, run.output());
+
+    const after = await readCredentials();
+    assert.notEqual(after.tokenSet.refresh_token, before.tokenSet.refresh_token);
+    assert.ok(mock.state.refreshTokens.has(after.tokenSet.refresh_token));
+    assert.ok(!mock.state.refreshTokens.has(before.tokenSet.refresh_token));
+    assert.deepEqual(after.profiles, before.profiles);
+  });
+
+  test('exits 2 when Xero rejects the refresh token', async () => {
+    const credentials = await login();
+    mock.state.refreshTokens.delete(credentials.tokenSet.refresh_token);
+
+    const run = runHelper(['refresh']);
+    assert.equal(await run.exit, 2);
+    assert.match(run.output(), /Refresh token was rejected/);
+  });
+});
+
+describe('revoke', () => {
+  test('disconnects one organisation and keeps the others', async () => {
+    await login();
+
+    const run = runHelper(['revoke', '--profile', 'acme-corp']);
+    assert.equal(await run.exit, 0, run.output());
+
+    assert.deepEqual(
+      mock.state.connections.map((connection) => connection.tenantId),
+      [BAKERY.tenantId]
+    );
+    const credentials = await readCredentials();
+    assert.deepEqual(Object.keys(credentials.profiles), ['sarah-s-bakery']);
+    assert.equal(credentials.defaultProfile, 'sarah-s-bakery');
+  });
+
+  test('refreshes an expired access token before disconnecting', async () => {
+    await login(['--tenant', ACME.tenantId]);
+    mock.expireAccessTokens();
+    const credentials = await readCredentials();
+    credentials.tokenSet.expires_at = Math.floor(Date.now() / 1000) - 1;
+    await fs.writeFile(credentialsPath, JSON.stringify(credentials));
+
+    const run = runHelper(['revoke']);
+    assert.equal(await run.exit, 0, run.output());
+    assert.ok(!mock.state.connections.some((connection) => connection.tenantId === ACME.tenantId));
+    await assert.rejects(fs.stat(credentialsPath), { code: 'ENOENT' });
+  });
+
+  test('--all revokes the refresh token and deletes local tokens', async () => {
+    const credentials = await login();
+
+    const run = runHelper(['revoke', '--all']);
+    assert.equal(await run.exit, 0, run.output());
+
+    assert.deepEqual(mock.state.connections, []);
+    assert.ok(!mock.state.refreshTokens.has(credentials.tokenSet.refresh_token));
+    await assert.rejects(fs.stat(credentialsPath), { code: 'ENOENT' });
+  });
+});
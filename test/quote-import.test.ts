@@ -0,0 +1,224 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  RateLimiter,
+  batchIdempotencyKey,
+  parseCsv,
+  readCsvQuotes,
+  readJsonQuotes,
+  readQuotesFile,
+  referenceKey,
+  withRateLimitRetry,
+} from '../lib/quote-import.js';
+
+describe('parseCsv', () => {
+  test('handles quoted fields, escaped quotes and CRLF line endings', () => {
+    const rows = parseCsv('name,description\r\n"Acme, Inc","10"" widgets"\r\nBeta,plain\r\n');
+    assert.deepEqual(rows, [
+      ['name', 'description'],
+      ['Acme, Inc', '10" widgets'],
+      ['Beta', 'plain'],
+    ]);
+  });
+
+  test('keeps line breaks inside quoted fields', () => {
+    assert.deepEqual(parseCsv('a,b\n"line one\nline two",x'), [
+      ['a', 'b'],
+      ['line one\nline two', 'x'],
+    ]);
+  });
+});
+
+describe('readCsvQuotes', () => {
+  test('groups rows by reference into quotes with several line items', () => {
+    const quotes = readCsvQuotes(
+      [
+        'Contact Name,Email,Reference,Description,Qty,Unit Price',
+        'Acme Corp,ap@acme.test,Q-1,Consulting,10,"$150"',
+        'Acme Corp,,Q-1,Travel,5,75',
+        "Sarah's Bakery,,Q-2,Custom website,1,\"3,500\"",
+        '',
+      ].join('\n')
+    );
+
+    assert.equal(quotes.length, 2);
+    assert.deepEqual(quotes[0].rows, [2, 3]);
+    assert.deepEqual(quotes[0].input, {
+      contactName: 'Acme Corp',
+      contactEmail: 'ap@acme.test',
+      reference: 'Q-1',
+      lineItems: [
+        { description: 'Consulting', quantity: 10, unitAmount: 150 },
+        { description: 'Travel', quantity: 5, unitAmount: 75 },
+      ],
+    });
+    assert.equal(quotes[1].input.lineItems[0].unitAmount, 3500);
+    assert.equal(quotes[1].input.contactEmail, undefined);
+  });
+
+  test('keeps rows without a reference as separate quotes', () => {
+    const quotes = readCsvQuotes('contact,description,price\nA,One,1\nA,Two,2');
+    assert.equal(quotes.length, 2);
+  });
+
+  test('reports unparseable numbers and conflicting contacts per row', () => {
+    const [quote] = readCsvQuotes('contact,reference,description,quantity,price\nA,Q-1,One,lots,1\nB,Q-1,Two,1,2');
+
+    assert.deepEqual(quote.errors, [
+      'Row 2: quantity "lots" is not a number',
+      'Row 3: contact "B" differs from "A" for reference Q-1',
+    ]);
+  });
+
+  test('rejects unknown columns', () => {
+    assert.throws(() => readCsvQuotes('contact,colour\nA,red'), /Unrecognised CSV columns: colour/);
+  });
+
+  test('ignores columns with an empty header', () => {
+    const [quote] = readCsvQuotes('contact,,price,\nA,note,5,');
+    assert.deepEqual(quote.input.lineItems, [{ description: '', quantity: 1, unitAmount: 5 }]);
+  });
+});
+
+describe('readJsonQuotes', () => {
+  test('accepts quote objects and flat rows', () => {
+    const quotes = readJsonQuotes(
+      JSON.stringify([
+        { contactName: 'Acme', reference: 'Q-1', lineItems: [{ description: 'Widgets', quantity: '1,000', unitAmount: 2 }] },
+        { contact: 'Beta', reference: 'Q-2', description: 'Setup', price: '250' },
+      ])
+    );
+
+    assert.equal(quotes.length, 2);
+    assert.equal(quotes[0].input.lineItems[0].quantity, 1000);
+    assert.deepEqual(quotes[1].input, {
+      contactName: 'Beta',
+      reference: 'Q-2',
+      lineItems: [{ description: 'Setup', quantity: 1, unitAmount: 250 }],
+    });
+    assert.deepEqual(quotes[1].rows, [2]);
+  });
+
+  test('keeps file order across quote objects and flat rows', () => {
+    const quotes = readJsonQuotes(
+      JSON.stringify([
+        { contact: 'Beta', reference: 'Q-2', price: '250' },
+        { contactName: 'Acme', reference: 'Q-1', lineItems: [{ quantity: 1, unitAmount: 2 }] },
+      ])
+    );
+
+    assert.deepEqual(
+      quotes.map((quote) => quote.rows),
+      [[1], [2]]
+    );
+  });
+
+  test('leaves a blank unit amount for validation, so the item can set the price', () => {
+    const [quote] = readJsonQuotes(
+      JSON.stringify([{ contactName: 'Acme', reference: 'Q-1', lineItems: [{ itemCode: 'CONSULT', quantity: 2 }] }])
+    );
+
+    assert.deepEqual(quote.errors, []);
+    assert.deepEqual(quote.input.lineItems, [{ itemCode: 'CONSULT', quantity: 2, unitAmount: undefined }]);
+  });
+
+  test('requires an array', () => {
+    assert.throws(() => readJsonQuotes('{}'), /must contain an array/);
+  });
+});
+
+describe('readQuotesFile', () => {
+  test('picks the parser from the file extension', () => {
+    assert.equal(readQuotesFile('quotes.CSV', 'contact,price\nA,1').length, 1);
+    assert.throws(() => readQuotesFile('quotes.xlsx', ''), /use .csv or .json/);
+  });
+});
+
+describe('referenceKey', () => {
+  test('ignores case and surrounding spaces', () => {
+    assert.equal(referenceKey(' Project-2025-001 '), referenceKey('PROJECT-2025-001'));
+  });
+});
+
+describe('batchIdempotencyKey', () => {
+  test('depends only on the organisation and the references, in any order or case', () => {
+    const key = batchIdempotencyKey('tenant-a', ['Q-1', 'Q-2']);
+
+    assert.equal(batchIdempotencyKey('tenant-a', [' q-2', 'Q-1 ']), key);
+    assert.notEqual(batchIdempotencyKey('tenant-b', ['Q-1', 'Q-2']), key);
+    assert.notEqual(batchIdempotencyKey('tenant-a', ['Q-1']), key);
+    assert.match(key, /^quote-import-[0-9a-f]{32}$/);
+  });
+});
+
+describe('RateLimiter', () => {
+  test('waits for the oldest call to leave the one-minute window', async () => {
+    let now = 0;
+    const waits: number[] = [];
+    const limiter = new RateLimiter(2, () => now, async (ms) => {
+      waits.push(ms);
+      now += ms;
+    });
+
+    await limiter.wait();
+    now = 10000;
+    await limiter.wait();
+    await limiter.wait();
+
+    assert.deepEqual(waits, [50000]);
+    assert.equal(now, 60000);
+  });
+});
+
+describe('withRateLimitRetry', () => {
+  const rateLimited = (retryAfter?: string) =>
+    JSON.stringify({ response: { statusCode: 429, headers: retryAfter ? { 'retry-after': retryAfter } : {} } });
+
+  test('retries 429 responses, honouring Retry-After', async () => {
+    const waits: number[] = [];
+    let calls = 0;
+
+    const result = await withRateLimitRetry(
+      async () => {
+        calls++;
+        if (calls === 1) {
+          throw rateLimited('7');
+        }
+        if (calls === 2) {
+          throw rateLimited();
+        }
+        return 'created';
+      },
+      { wait: async (ms) => void waits.push(ms) }
+    );
+
+    assert.equal(result, 'created');
+    assert.deepEqual(waits, [7000, 2000]);
+  });
+
+  test('gives up after the configured retries', async () => {
+    let calls = 0;
+    await assert.rejects(
+      withRateLimitRetry(
+        async () => {
+          calls++;
+          throw rateLimited('1');
+        },
+        { retries: 2, wait: async () => {} }
+      )
+    );
+    assert.equal(calls, 3);
+  });
+
+  test('does not retry other errors', async () => {
+    let calls = 0;
+    await assert.rejects(
+      withRateLimitRetry(async () => {
+        calls++;
+        throw new Error('Validation failed');
+      }),
+      /Validation failed/
+    );
+    assert.equal(calls, 1);
+  });
+});
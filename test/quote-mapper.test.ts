@@ -0,0 +1,464 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { Account, AccountType, CurrencyCode, QuoteStatusCodes, TaxRate, TrackingCategory, TrackingOption } from 'xero-node';
+import {
+  formatInvoiceSummary,
+  formatQuoteSummary,
+  fromXeroQuote,
+  parseNumber,
+  resolveDueDate,
+  toInvoiceData,
+  toQuoteData,
+  validateInvoiceData,
+  validateQuoteData,
+  validateStatusChange,
+  type OrgReferenceData,
+  type ParsedQuoteInput,
+} from '../.claude/skills/xero-quote/lib/quote-mapper.js';
+
+const REFERENCE: OrgReferenceData = {
+  items: [
+    {
+      code: 'CONSULT',
+      name: 'Consulting',
+      description: 'Consulting (per hour)',
+      isSold: true,
+      salesDetails: { unitPrice: 150, accountCode: '200', taxType: 'OUTPUT' },
+    },
+    { code: 'PARTS', name: 'Spare parts', isSold: false },
+  ],
+  accounts: [
+    { code: '090', name: 'Business Bank Account', type: AccountType.BANK, status: Account.StatusEnum.ACTIVE },
+    { code: '200', name: 'Sales', type: AccountType.REVENUE, taxType: 'OUTPUT', status: Account.StatusEnum.ACTIVE },
+    { code: '210', name: 'Export Sales', type: AccountType.REVENUE, taxType: 'ZERORATEDOUTPUT', status: Account.StatusEnum.ACTIVE },
+    { code: '250', name: 'Old Sales', type: AccountType.REVENUE, taxType: 'OUTPUT', status: Account.StatusEnum.ARCHIVED },
+  ],
+  taxRates: [
+    { name: 'GST on Income', taxType: 'OUTPUT', effectiveRate: 9, canApplyToRevenue: true, status: TaxRate.StatusEnum.ACTIVE },
+    { name: 'Zero Rated Supplies', taxType: 'ZERORATEDOUTPUT', effectiveRate: 0, canApplyToRevenue: true, status: TaxRate.StatusEnum.ACTIVE },
+    { name: 'GST on Expenses', taxType: 'INPUT', effectiveRate: 9, canApplyToRevenue: false, status: TaxRate.StatusEnum.ACTIVE },
+  ],
+  trackingCategories: [
+    {
+      name: 'Region',
+      status: TrackingCategory.StatusEnum.ACTIVE,
+      options: [
+        { name: 'North', status: TrackingOption.StatusEnum.ACTIVE },
+        { name: 'South', status: TrackingOption.StatusEnum.ACTIVE },
+      ],
+    },
+  ],
+  currencies: [
+    { code: CurrencyCode.SGD, description: 'Singapore Dollar' },
+    { code: CurrencyCode.USD, description: 'United States Dollar' },
+  ],
+  baseCurrency: 'SGD',
+};
+
+function input(overrides: Partial<ParsedQuoteInput> = {}): ParsedQuoteInput {
+  return {
+    contactName: 'Acme Corp',
+    contactEmail: 'ap@acme.test',
+    lineItems: [{ description: 'Consulting', quantity: 10, unitAmount: 150 }],
+    date: '2025-11-06',
+    ...overrides,
+  };
+}
+
+describe('parseNumber', () => {
+  test('accepts thousands separators, currency symbols and fractions', () => {
+    assert.equal(parseNumber('1,500'), 1500);
+    assert.equal(parseNumber('$1,250.50'), 1250.5);
+    assert.equal(parseNumber('1/2'), 0.5);
+    assert.equal(parseNumber('1 1/2'), 1.5);
+    assert.equal(parseNumber('2.5'), 2.5);
+    assert.equal(parseNumber('-5'), -5);
+    assert.equal(parseNumber(3), 3);
+  });
+
+  test('returns NaN for blanks and text', () => {
+    assert.ok(Number.isNaN(parseNumber('')));
+    assert.ok(Number.isNaN(parseNumber('ten')));
+  });
+
+  test('rejects hex, binary and exponent notation', () => {
+    for (const text of ['0x10', '0b1', '1e3', '1.', '.5', '1.2.3', 'Infinity']) {
+      assert.ok(Number.isNaN(parseNumber(text)), text);
+    }
+  });
+});
+
+describe('validateQuoteData', () => {
+  test('accepts a quote without an email address', () => {
+    assert.deepEqual(validateQuoteData(input({ contactEmail: undefined })), { valid: true, errors: [] });
+  });
+
+  test('accepts quantities and prices written as text', () => {
+    const result = validateQuoteData(input({ lineItems: [{ description: 'Travel', quantity: '1/2', unitAmount: '1,500' }] }));
+    assert.equal(result.valid, true);
+  });
+
+  test('reports every problem', () => {
+    const result = validateQuoteData({
+      contactName: ' ',
+      contactEmail: 'not-an-email',
+      lineItems: [
+        { description: '', quantity: 0, unitAmount: 10 },
+        { description: 'Widgets', quantity: 'lots', unitAmount: '-5' },
+      ],
+      date: '2025-02-30',
+    });
+
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors, [
+      'Contact name is required',
+      'Contact email "not-an-email" is not a valid email address',
+      'Line 1: description is required',
+      'Line 1: quantity "0" must be a positive number',
+      'Line 2: quantity "lots" must be a positive number',
+      'Line 2: unit amount "-5" must be a number of at least 0',
+      'Date "2025-02-30" must be a valid date in YYYY-MM-DD format',
+    ]);
+  });
+
+  test('accepts an item code without a description or price', () => {
+    const line = { itemCode: 'CONSULT', quantity: 2 };
+    assert.deepEqual(validateQuoteData(input({ lineItems: [line] })).errors, []);
+    assert.deepEqual(validateQuoteData(input({ lineItems: [line] }), REFERENCE).errors, []);
+  });
+
+  test('checks discounts and tracking without reference data', () => {
+    const result = validateQuoteData(
+      input({
+        lineItems: [
+          {
+            description: 'Consulting',
+            quantity: 1,
+            unitAmount: 150,
+            discountRate: '120%',
+            tracking: [
+              { category: 'Region', option: '' },
+              { category: 'Project', option: 'Website' },
+              { category: 'Team', option: 'Blue' },
+            ],
+          },
+        ],
+      })
+    );
+
+    assert.deepEqual(result.errors, [
+      'Line 1: discount rate "120%" must be a percentage from 0 to 100',
+      'Line 1: Xero allows at most 2 tracking categories per line',
+      'Line 1: tracking needs both a category and an option',
+    ]);
+  });
+
+  test('checks item codes, accounts, tax types and tracking against the reference data', () => {
+    const result = validateQuoteData(
+      input({
+        lineItems: [
+          { itemCode: 'NOPE', quantity: 1 },
+          { itemCode: 'PARTS', quantity: 1 },
+          { description: 'Old', quantity: 1, unitAmount: 10, accountCode: '250' },
+          { description: 'Bank', quantity: 1, unitAmount: 10, accountCode: '090' },
+          { description: 'Tax', quantity: 1, unitAmount: 10, taxType: 'INPUT' },
+          { description: 'Tracked', quantity: 1, unitAmount: 10, tracking: [{ category: 'Region', option: 'East' }, { category: 'Team', option: 'Blue' }] },
+        ],
+      }),
+      REFERENCE
+    );
+
+    assert.deepEqual(result.errors, [
+      'Line 1: item code "NOPE" is not an item in Xero',
+      'Line 2: item "PARTS" is not set up to be sold',
+      'Line 2: unit amount is required - item "PARTS" has no sale price',
+      'Line 3: account code "250" is not an active account in Xero',
+      'Line 4: account "090" is a bank account and can\'t be used on a line item',
+      'Line 5: tax type "INPUT" is not a sales tax rate in Xero',
+      'Line 6: "East" is not an option of tracking category "Region" - use one of North, South',
+      'Line 6: tracking category "Team" is not an active category in Xero',
+    ]);
+  });
+
+  test('checks the currency and line amount type', () => {
+    assert.deepEqual(validateQuoteData(input({ currencyCode: 'usd', lineAmountTypes: 'Inclusive' }), REFERENCE).errors, []);
+    assert.deepEqual(
+      validateQuoteData(input({ currencyCode: 'EUR', lineAmountTypes: 'Gross' as any }), REFERENCE).errors,
+      ['Currency EUR is not enabled in Xero - use one of SGD, USD', 'Line amount type "Gross" must be Exclusive, Inclusive or NoTax']
+    );
+    assert.deepEqual(validateQuoteData(input({ currencyCode: 'US$' })).errors, [
+      'Currency "US$" must be a 3-letter ISO code such as USD',
+    ]);
+  });
+
+  test('requires line items and an expiry date after the quote date', () => {
+    const result = validateQuoteData(input({ lineItems: [], expiryDate: '2025-11-01' }));
+    assert.deepEqual(result.errors, [
+      'At least one line item is required',
+      'Expiry date must be on or after the quote date',
+    ]);
+  });
+});
+
+describe('toQuoteData', () => {
+  test('builds a draft quote with parsed numbers', () => {
+    const quote = toQuoteData(
+      input({
+        reference: 'Q-1',
+        termsAndConditions: 'Payment due within 30 days',
+        lineItems: [{ description: ' Travel ', quantity: '1/2', unitAmount: '$1,500' }],
+      })
+    );
+
+    assert.deepEqual(quote.contact, { name: 'Acme Corp', emailAddress: 'ap@acme.test' });
+    assert.equal(quote.date, '2025-11-06');
+    assert.equal(quote.reference, 'Q-1');
+    assert.equal(quote.terms, 'Payment due within 30 days');
+    assert.equal(String(quote.status), 'DRAFT');
+    assert.deepEqual(quote.lineItems, [{ description: 'Travel', quantity: 0.5, unitAmount: 1500 }]);
+  });
+
+  test('fills in item details and uses the exact names from the reference data', () => {
+    const quote = toQuoteData(
+      input({
+        lineItems: [
+          { itemCode: 'consult', quantity: 2, discountRate: '10%', tracking: [{ category: 'region', option: 'north' }] },
+          { description: 'Export', quantity: 1, unitAmount: 500, accountCode: '210', taxType: 'zeroratedoutput' },
+        ],
+      }),
+      REFERENCE
+    );
+
+    assert.deepEqual(quote.lineItems, [
+      {
+        description: 'Consulting (per hour)',
+        quantity: 2,
+        unitAmount: 150,
+        itemCode: 'CONSULT',
+        discountRate: 10,
+        tracking: [{ name: 'Region', option: 'North' }],
+      },
+      { description: 'Export', quantity: 1, unitAmount: 500, accountCode: '210', taxType: 'ZERORATEDOUTPUT' },
+    ]);
+  });
+
+  test('sets the currency and line amount type in the spelling Xero expects', () => {
+    const quote = toQuoteData(input({ currencyCode: ' usd', lineAmountTypes: 'NoTax' }));
+    assert.equal(String(quote.currencyCode), 'USD');
+    assert.equal(String(quote.lineAmountTypes), 'NOTAX');
+
+    const invoice = toInvoiceData({ ...input({ currencyCode: 'AUD', lineAmountTypes: 'Inclusive' }) });
+    assert.equal(String(invoice.currencyCode), 'AUD');
+    assert.equal(String(invoice.lineAmountTypes), 'Inclusive');
+  });
+
+  test('leaves item details to Xero without reference data', () => {
+    assert.deepEqual(toQuoteData(input({ lineItems: [{ itemCode: 'CONSULT', quantity: 2 }] })).lineItems, [
+      { quantity: 2, itemCode: 'CONSULT' },
+    ]);
+  });
+
+  test('leaves out a missing email and defaults the date to today', () => {
+    const quote = toQuoteData(input({ contactEmail: '', date: undefined }));
+
+    assert.equal(quote.contact?.emailAddress, undefined);
+    assert.equal(quote.date, new Date().toISOString().split('T')[0]);
+  });
+});
+
+describe('formatQuoteSummary', () => {
+  test('lists each line with its amount and the subtotal', () => {
+    const summary = formatQuoteSummary(
+      input({
+        lineItems: [
+          { description: 'Consulting', quantity: 10, unitAmount: 150 },
+          { description: 'Travel', quantity: '1/2', unitAmount: '1,500' },
+        ],
+      })
+    );
+
+    assert.match(summary, /Contact:\s+Acme Corp <ap@acme.test>/);
+    assert.match(summary, /1\. Consulting - 10 × \$150\.00 = \$1,500\.00/);
+    assert.match(summary, /2\. Travel - 0\.5 × \$1,500\.00 = \$750\.00/);
+    assert.match(summary, /Subtotal:\s+\$2,250\.00/);
+  });
+
+  test('shows tax-exclusive and tax-inclusive amounts with reference data', () => {
+    const summary = formatQuoteSummary(
+      input({
+        lineItems: [
+          { itemCode: 'CONSULT', quantity: 10, discountRate: 10, tracking: [{ category: 'Region', option: 'North' }] },
+          { description: 'Export shipment', quantity: 1, unitAmount: 1000, accountCode: '210' },
+        ],
+      }),
+      REFERENCE
+    );
+
+    assert.match(summary, /1\. Consulting \(per hour\) - 10 × SGD 150\.00 less 10% = SGD 1,350\.00 excl\. tax, SGD 1,471\.50 incl\. 9% GST on Income\n\s+Item CONSULT · Region: North/);
+    assert.match(summary, /2\. Export shipment - 1 × SGD 1,000\.00 = SGD 1,000\.00 excl\. tax, SGD 1,000\.00 incl\. 0% Zero Rated Supplies\n\s+Account 210/);
+    assert.match(summary, /Subtotal:\s+SGD 2,350\.00 \(before tax\)\nTax:\s+SGD 121\.50\nTotal:\s+SGD 2,471\.50 \(including tax\)/);
+  });
+
+  test('leaves the tax to Xero when a line\'s tax rate is unknown', () => {
+    const summary = formatQuoteSummary(input({ lineItems: [{ description: 'Misc', quantity: 1, unitAmount: 10, taxType: 'SPECIAL' }] }), REFERENCE);
+
+    assert.match(summary, /1\. Misc - 1 × SGD 10\.00 = SGD 10\.00\n\s+Tax SPECIAL/);
+    assert.doesNotMatch(summary, /Total:/);
+  });
+
+  test('works out tax included in the prices, in the quote currency', () => {
+    const summary = formatQuoteSummary(
+      input({ currencyCode: 'USD', lineAmountTypes: 'Inclusive', lineItems: [{ itemCode: 'CONSULT', quantity: 1, unitAmount: 1090 }] }),
+      REFERENCE
+    );
+
+    assert.match(summary, /Amounts:\s+USD, including tax/);
+    assert.match(summary, /1\. Consulting \(per hour\) - 1 × USD 1,090\.00 = USD 1,000\.00 excl\. tax, USD 1,090\.00 incl\. 9% GST on Income/);
+    assert.match(summary, /Subtotal:\s+USD 1,000\.00 \(before tax\)\nTax:\s+USD 90\.00\nTotal:\s+USD 1,090\.00 \(including tax\)/);
+  });
+
+  test('shows prices as tax-inclusive or untaxed without reference data', () => {
+    assert.match(formatQuoteSummary(input({ lineAmountTypes: 'Inclusive' })), /= \$1,500\.00 incl\. tax\n\nTotal:\s+\$1,500\.00 \(including tax\)/);
+    assert.match(formatQuoteSummary(input({ lineAmountTypes: 'NoTax' })), /= \$1,500\.00 \(no tax\)\n\nSubtotal:\s+\$1,500\.00 \(before tax\)\nTax:\s+\$0\.00/);
+  });
+
+  test('uses the currency\'s decimal places', () => {
+    assert.match(formatQuoteSummary(input({ currencyCode: 'JPY', lineItems: [{ description: 'Tour', quantity: 2, unitAmount: 15000 }] })), /2 × JPY 15,000 = JPY 30,000/);
+  });
+
+  test('previews the total in the base currency of the exchange rates', () => {
+    const rates = { base: 'SGD', date: '2025-11-06', rates: { USD: 1.35 } };
+
+    assert.match(
+      formatQuoteSummary(input({ currencyCode: 'USD' }), REFERENCE, rates),
+      /Subtotal:\s+USD 1,500\.00 \(before tax\)\nIn SGD:\s+≈ SGD 2,025\.00 at 1 USD = 1\.35 SGD \(rates from 2025-11-06\)/
+    );
+    assert.match(formatQuoteSummary(input({ currencyCode: 'AUD' }), undefined, rates), /In SGD:\s+no AUD exchange rate available/);
+    assert.doesNotMatch(formatQuoteSummary(input({ currencyCode: 'SGD' }), undefined, rates), /In SGD/);
+  });
+
+  test('skips the preview when the rates are in another base than the organisation', () => {
+    const rates = { base: 'USD', rates: { SGD: 0.74, AUD: 0.65 } };
+
+    assert.match(
+      formatQuoteSummary(input({ currencyCode: 'AUD' }), REFERENCE, rates),
+      /In SGD:\s+no preview - the exchange rates are in USD, not SGD/
+    );
+    assert.doesNotMatch(formatQuoteSummary(input({ currencyCode: 'SGD' }), REFERENCE, rates), /In (SGD|USD)/);
+  });
+
+  test('shows the number, status and Xero total of a fetched quote', () => {
+    const summary = formatQuoteSummary({
+      ...input(),
+      quoteID: 'quote-id',
+      quoteNumber: 'QU-0042',
+      status: 'SENT',
+      subTotal: 1500,
+      totalTax: 135,
+      total: 1635,
+    });
+
+    assert.match(summary, /^Quote:\s+QU-0042 \(SENT\)\n/);
+    assert.match(summary, /Total:\s+\$1,635\.00 \(including \$135\.00 tax, as calculated by Xero\)/);
+  });
+});
+
+describe('validateStatusChange', () => {
+  test('allows the changes Xero allows', () => {
+    assert.equal(validateStatusChange('DRAFT', 'SENT'), null);
+    assert.equal(validateStatusChange('SENT', 'ACCEPTED'), null);
+    assert.equal(validateStatusChange('SENT', 'DECLINED'), null);
+    assert.equal(validateStatusChange('DECLINED', 'SENT'), null);
+  });
+
+  test('explains the changes it refuses', () => {
+    assert.equal(validateStatusChange('DRAFT', 'ACCEPTED'), "A quote that is DRAFT can't be marked ACCEPTED - it can only move to SENT or DELETED");
+    assert.equal(validateStatusChange('INVOICED', 'SENT'), "A quote that is INVOICED can't be marked SENT - its status is final");
+    assert.match(validateStatusChange('DRAFT', 'APPROVED')!, /Unknown quote status "APPROVED"/);
+  });
+});
+
+describe('fromXeroQuote', () => {
+  test('reads the dates Xero returns and leaves out empty fields', () => {
+    const quote = fromXeroQuote({
+      quoteID: 'quote-id',
+      quoteNumber: 'QU-0042',
+      status: QuoteStatusCodes.SENT,
+      contact: { contactID: 'contact-id', name: 'Acme Corp' },
+      date: '/Date(1762387200000+0000)/',
+      expiryDate: '2025-12-06T00:00:00',
+      reference: '',
+      lineItems: [{ description: 'Consulting', quantity: 10, unitAmount: 150 }],
+      total: 1635,
+    });
+
+    assert.deepEqual(quote, {
+      quoteID: 'quote-id',
+      quoteNumber: 'QU-0042',
+      status: 'SENT',
+      contactID: 'contact-id',
+      contactName: 'Acme Corp',
+      lineItems: [{ description: 'Consulting', quantity: 10, unitAmount: 150 }],
+      date: '2025-11-06',
+      expiryDate: '2025-12-06',
+      subTotal: undefined,
+      totalTax: undefined,
+      total: 1635,
+    });
+  });
+});
+
+describe('resolveDueDate', () => {
+  test('counts days after the invoice date', () => {
+    assert.equal(resolveDueDate('2025-11-06', 'Net 30'), '2025-12-06');
+    assert.equal(resolveDueDate('2025-11-06', '14 days'), '2025-11-20');
+    assert.equal(resolveDueDate('2025-11-06', 'within 7 days'), '2025-11-13');
+    assert.equal(resolveDueDate('2025-11-06', 'Due on receipt'), '2025-11-06');
+  });
+
+  test('handles days of the following month and month ends', () => {
+    assert.equal(resolveDueDate('2025-11-06', '20th of following month'), '2025-12-20');
+    assert.equal(resolveDueDate('2025-01-15', '31st of the following month'), '2025-02-28');
+    assert.equal(resolveDueDate('2025-11-06', 'End of following month'), '2025-12-31');
+    assert.equal(resolveDueDate('2025-11-06', 'EOM'), '2025-11-30');
+  });
+
+  test('returns null for terms it does not recognise', () => {
+    assert.equal(resolveDueDate('2025-11-06', 'when you can'), null);
+  });
+});
+
+describe('validateInvoiceData', () => {
+  test('checks the due date and payment terms as well as the quote fields', () => {
+    assert.deepEqual(validateInvoiceData({ ...input(), dueDate: '2025-11-01' }).errors, [
+      'Due date must be on or after the invoice date',
+    ]);
+    assert.match(validateInvoiceData({ ...input(), paymentTerms: 'soon' }).errors[0], /Payment terms "soon" are not recognised/);
+    assert.equal(validateInvoiceData({ ...input(), paymentTerms: 'Net 30' }).valid, true);
+  });
+});
+
+describe('toInvoiceData', () => {
+  test('builds a draft sales invoice with the due date from the payment terms', () => {
+    const invoice = toInvoiceData({ ...input({ reference: 'PO-7' }), paymentTerms: 'Net 14' });
+
+    assert.equal(String(invoice.type), 'ACCREC');
+    assert.equal(String(invoice.status), 'DRAFT');
+    assert.equal(invoice.date, '2025-11-06');
+    assert.equal(invoice.dueDate, '2025-11-20');
+    assert.equal(invoice.reference, 'PO-7');
+    assert.deepEqual(invoice.lineItems, [{ description: 'Consulting', quantity: 10, unitAmount: 150 }]);
+  });
+
+  test('prefers an explicit due date and leaves it out when there is neither', () => {
+    assert.equal(toInvoiceData({ ...input(), dueDate: '2025-12-01', paymentTerms: 'Net 7' }).dueDate, '2025-12-01');
+    assert.equal(toInvoiceData(input()).dueDate, undefined);
+  });
+});
+
+describe('formatInvoiceSummary', () => {
+  test('shows the due date under the invoice date', () => {
+    const summary = formatInvoiceSummary({ ...input(), paymentTerms: 'Net 30' });
+    assert.match(summary, /Date:\s+2025-11-06\nDue:\s+2025-12-06 \(Net 30\)/);
+  });
+});
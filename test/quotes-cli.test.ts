@@ -0,0 +1,240 @@
+import { test, describe, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { saveCredentials } from '../lib/credentials.js';
+import { FileTokenStore } from '../lib/token-store.js';
+import {
+  DEFAULT_TENANTS,
+  MOCK_CLIENT_ID,
+  MOCK_CLIENT_SECRET,
+  getMockTokens,
+  startMockXeroServer,
+  type MockXeroServer,
+} from './mock-xero-server.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const TSX = path.join(ROOT, 'node_modules', '.bin', 'tsx');
+const CLI = path.join(ROOT, 'lib', 'quotes-cli.ts');
+
+const [ACME] = DEFAULT_TENANTS;
+
+const CSV = [
+  'Contact,Reference,Description,Qty,Price',
+  'Acme Corp,Q-1,Consulting,10,150',
+  'Acme Corp,Q-1,Travel,1,75',
+  'Beta Ltd,Q-2,Setup,1,250',
+  'Gamma,,Support,1,99',
+  'Beta Ltd,q-2,Hosting,12,20',
+  '',
+].join('\n');
+
+let mock: MockXeroServer;
+let dir: string;
+let credentialsPath: string;
+let importPath: string;
+let resultsPath: string;
+
+/**
+ * Run the quotes CLI in a child process against the mock server
+ */
+async function runCli(args: string[]): Promise<{ code: number; output: string }> {
+  const child = spawn(TSX, [CLI, 'import', importPath, ...args], {
+    cwd: dir,
+    env: {
+      PATH: process.env.PATH,
+      XERO_CLIENT_ID: MOCK_CLIENT_ID,
+      XERO_CLIENT_SECRET: MOCK_CLIENT_SECRET,
+      XERO_IDENTITY_URL: mock.url,
+      XERO_API_URL: mock.url,
+      XERO_CREDENTIALS_PATH: credentialsPath,
+    },
+  });
+
+  let output = '';
+  child.stdout.on('data', (chunk: Buffer) => (output += chunk.toString()));
+  child.stderr.on('data', (chunk: Buffer) => (output += chunk.toString()));
+  const code = await new Promise<number>((resolve) => child.on('close', (exitCode) => resolve(exitCode ?? 1)));
+  return { code, output };
+}
+
+async function readResults(): Promise<any[]> {
+  return JSON.parse(await fs.readFile(resultsPath, 'utf-8'));
+}
+
+/**
+ * Save credentials for the mock, as `npm run auth` would
+ */
+async function login() {
+  await saveCredentials(await getMockTokens(mock), { 'acme-corp': ACME }, new FileTokenStore(credentialsPath));
+}
+
+before(async () => {
+  mock = await startMockXeroServer();
+});
+
+after(async () => {
+  await mock.close();
+});
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'quotes-cli-'));
+  credentialsPath = path.join(dir, 'credentials.json');
+  importPath = path.join(dir, 'quotes.csv');
+  resultsPath = path.join(dir, 'quotes.results.json');
+  await fs.writeFile(importPath, CSV);
+  for (const data of mock.state.tenantData.values()) {
+    data.contacts = [];
+    data.quotes = [];
+    data.requestTimes = [];
+  }
+  mock.state.idempotentResponses.clear();
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('quotes import', () => {
+  test('a dry run checks the quotes against Xero and writes results without creating anything', async () => {
+    await login();
+    const requestsBefore = mock.state.requests.length;
+
+    const { code, output } = await runCli(['--dry-run']);
+
+    assert.equal(code, 1, output);
+    assert.match(output, /2 to create, 0 already created, 2 invalid/);
+    assert.deepEqual(
+      (await readResults()).map((result) => [result.rows, result.status, result.errors]),
+      [
+        [[2, 3], 'valid', undefined],
+        [[4], 'valid', undefined],
+        [[5], 'invalid', ['A reference is required so a re-run cannot create the quote twice']],
+        [[6], 'invalid', ['Reference q-2 is already used by row 4']],
+      ]
+    );
+    assert.deepEqual(
+      mock.state.requests.slice(requestsBefore).filter((request) => request.method !== 'GET'),
+      []
+    );
+  });
+
+  test('a dry run rejects item codes Xero does not have and accepts prices from items', async () => {
+    await login();
+    importPath = path.join(dir, 'quotes.json');
+    resultsPath = path.join(dir, 'quotes.results.json');
+    await fs.writeFile(
+      importPath,
+      JSON.stringify([
+        { contactName: 'Acme Corp', reference: 'Q-1', lineItems: [{ itemCode: 'CONSULT', quantity: 2 }] },
+        { contactName: 'Acme Corp', reference: 'Q-2', lineItems: [{ itemCode: 'NOPE', quantity: 1 }] },
+      ])
+    );
+
+    const { output } = await runCli(['--dry-run']);
+
+    assert.deepEqual(
+      (await readResults()).map((result) => [result.status, result.errors]),
+      [
+        ['valid', undefined],
+        ['invalid', ['Line 1: item code "NOPE" is not an item in Xero']],
+      ],
+      output
+    );
+  });
+
+  test('creates the valid quotes in one request and skips them on a re-run', async () => {
+    await login();
+
+    const first = await runCli(['--yes']);
+
+    assert.equal(first.code, 1, first.output);
+    const quotesRequests = () => mock.state.requests.filter((request) => request.path.endsWith('/Quotes'));
+    assert.equal(quotesRequests().length, 1);
+    // The batch was sent with an Idempotency-Key
+    assert.equal(mock.state.idempotentResponses.size, 1);
+    const created = (await readResults()).filter((result) => result.status === 'created');
+    assert.deepEqual(
+      created.map((result) => [result.reference, result.quoteNumber]),
+      [
+        ['Q-1', 'QU-0001'],
+        ['Q-2', 'QU-0002'],
+      ]
+    );
+    assert.match(created[0].idempotencyKey, /^quote-import-[0-9a-f]{32}$/);
+
+    const second = await runCli(['--yes']);
+
+    assert.equal(second.code, 1, second.output);
+    assert.match(second.output, /0 to create, 2 already created, 2 invalid/);
+    assert.equal(quotesRequests().length, 1);
+    assert.deepEqual(
+      (await readResults()).map((result) => [result.status, result.quoteNumber]),
+      [
+        ['skipped', 'QU-0001'],
+        ['skipped', 'QU-0002'],
+        ['invalid', undefined],
+        ['invalid', undefined],
+      ]
+    );
+    assert.equal(mock.state.tenantData.get(ACME.tenantId)!.quotes.length, 2);
+  });
+
+  test('keeps created results when a quote is edited, duplicated or removed', async () => {
+    await login();
+    await runCli(['--yes']);
+    await fs.writeFile(
+      importPath,
+      [
+        'Contact,Email,Reference,Description,Qty,Price',
+        'Acme Corp,not-an-email,Q-1,Consulting,10,150',
+        'Acme Corp,,q-1,Travel,1,75',
+        '',
+      ].join('\n')
+    );
+
+    await runCli(['--yes']);
+
+    assert.deepEqual(
+      (await readResults()).map((result) => [result.reference, result.status, result.quoteNumber]),
+      [
+        ['Q-1', 'skipped', 'QU-0001'],
+        ['q-1', 'invalid', undefined],
+        ['Q-2', 'created', 'QU-0002'],
+      ]
+    );
+    assert.equal(mock.state.tenantData.get(ACME.tenantId)!.quotes.length, 2);
+  });
+
+  test('re-sends quotes whose outcome was lost with the same key, so Xero does not create them twice', async () => {
+    await login();
+    await runCli(['--yes']);
+    // As if the response to the batch had timed out after Xero created the quotes
+    const lost = (await readResults()).map((result) =>
+      result.status === 'created' ? { ...result, status: 'failed', quoteNumber: undefined, errors: ['Timed out'] } : result
+    );
+    await fs.writeFile(resultsPath, JSON.stringify(lost));
+
+    await runCli(['--yes']);
+
+    assert.deepEqual(
+      (await readResults()).filter((result) => result.status === 'created').map((result) => result.quoteNumber),
+      ['QU-0001', 'QU-0002']
+    );
+    assert.equal(mock.state.tenantData.get(ACME.tenantId)!.quotes.length, 2);
+  });
+
+  test('waits out a 429 and then creates the quotes', async () => {
+    await login();
+    mock.failNext(429);
+
+    const { output } = await runCli(['--yes']);
+
+    assert.match(output, /✓ Q-1: QU-0001/);
+    assert.match(output, /✓ Q-2: QU-0002/);
+    assert.equal(mock.state.tenantData.get(ACME.tenantId)!.quotes.length, 2);
+  });
+});
@@ -0,0 +1,133 @@
+import { test, describe, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CommandTokenStore,
+  EncryptedFileTokenStore,
+  FileTokenStore,
+  createTokenStore,
+  writeFileAtomic,
+} from '../lib/token-store.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'xero-token-store-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('writeFileAtomic', () => {
+  test('writes with 0600 permissions and leaves no temp files behind', async () => {
+    const filePath = path.join(dir, 'credentials.json');
+    await fs.writeFile(filePath, 'old', { mode: 0o644 });
+
+    await writeFileAtomic(filePath, 'new');
+
+    assert.equal(await fs.readFile(filePath, 'utf-8'), 'new');
+    assert.equal((await fs.stat(filePath)).mode & 0o777, 0o600);
+    assert.deepEqual(await fs.readdir(dir), ['credentials.json']);
+  });
+});
+
+describe('FileTokenStore', () => {
+  test('returns null before anything is saved, then round-trips', async () => {
+    const store = new FileTokenStore(path.join(dir, 'credentials.json'));
+
+    assert.equal(await store.read(), null);
+    await store.write('{"tokenSet":{}}');
+    assert.equal(await store.read(), '{"tokenSet":{}}');
+
+    await store.remove();
+    assert.equal(await store.read(), null);
+  });
+});
+
+describe('EncryptedFileTokenStore', () => {
+  test('round-trips without writing the plaintext to disk', async () => {
+    const filePath = path.join(dir, 'credentials.enc.json');
+    const store = new EncryptedFileTokenStore(filePath, async () => 'correct horse');
+
+    await store.write('{"refresh_token":"secret-refresh-token"}');
+
+    const raw = await fs.readFile(filePath, 'utf-8');
+    assert.ok(!raw.includes('secret-refresh-token'));
+    assert.equal(JSON.parse(raw).algorithm, 'aes-256-gcm');
+    assert.equal((await fs.stat(filePath)).mode & 0o777, 0o600);
+    assert.equal(await store.read(), '{"refresh_token":"secret-refresh-token"}');
+  });
+
+  test('rejects the wrong secret', async () => {
+    const filePath = path.join(dir, 'credentials.enc.json');
+    await new EncryptedFileTokenStore(filePath, async () => 'right').write('data');
+
+    const wrong = new EncryptedFileTokenStore(filePath, async () => 'wrong');
+    await assert.rejects(wrong.read(), /wrong secret or corrupted file/);
+  });
+
+  test('asks for the secret once per store', async () => {
+    let calls = 0;
+    const store = new EncryptedFileTokenStore(path.join(dir, 'credentials.enc.json'), async () => {
+      calls++;
+      return 'passphrase';
+    });
+
+    await store.write('one');
+    await store.write('two');
+    assert.equal(await store.read(), 'two');
+    assert.equal(calls, 1);
+  });
+});
+
+describe('CommandTokenStore', () => {
+  test('reads, writes and deletes through shell commands', async () => {
+    const target = path.join(dir, 'secret');
+    const store = new CommandTokenStore(`cat "${target}"`, `cat > "${target}"`, `rm "${target}"`);
+
+    assert.equal(await store.read(), null);
+    await store.write('{"tokenSet":{}}');
+    assert.equal(await fs.readFile(target, 'utf-8'), '{"tokenSet":{}}');
+    assert.equal(await store.read(), '{"tokenSet":{}}');
+
+    await store.remove();
+    assert.equal(await store.read(), null);
+  });
+
+  test('does not reveal the commands in its description', () => {
+    const store = new CommandTokenStore('pass show xero', 'pass insert -m xero', 'pass rm -f xero');
+    assert.doesNotMatch(store.description, /pass/);
+  });
+
+  test('surfaces a failing write command', async () => {
+    const store = new CommandTokenStore('true', 'echo nope >&2; exit 3');
+    await assert.rejects(store.write('data'), /exit 3\): nope/);
+  });
+});
+
+describe('createTokenStore', () => {
+  test('defaults to the plain file store', () => {
+    const store = createTokenStore({ XERO_CREDENTIALS_PATH: path.join(dir, 'c.json') });
+    assert.ok(store instanceof FileTokenStore);
+  });
+
+  test('builds the encrypted store from XERO_TOKEN_SECRET', async () => {
+    const filePath = path.join(dir, 'c.enc.json');
+    const store = createTokenStore({ XERO_TOKEN_STORE: 'encrypted', XERO_TOKEN_SECRET: 's3cret', XERO_CREDENTIALS_PATH: filePath });
+
+    assert.ok(store instanceof EncryptedFileTokenStore);
+    await store.write('data');
+    assert.equal(await new EncryptedFileTokenStore(filePath, async () => 's3cret').read(), 'data');
+  });
+
+  test('requires read and write commands for the command store', () => {
+    assert.throws(() => createTokenStore({ XERO_TOKEN_STORE: 'command' }), /XERO_TOKEN_READ_COMMAND/);
+  });
+
+  test('rejects unknown backends', () => {
+    assert.throws(() => createTokenStore({ XERO_TOKEN_STORE: 'vault' }), /Unknown XERO_TOKEN_STORE "vault"/);
+  });
+});
@@ -0,0 +1,606 @@
+import { test, describe, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { XeroService } from '../.claude/skills/xero-quote/lib/xero-client.js';
+import {
+  formatQuoteSummary,
+  toInvoiceData,
+  toQuoteData,
+  validateQuoteData,
+} from '../.claude/skills/xero-quote/lib/quote-mapper.js';
+import { loadCredentials, saveCredentials } from '../lib/credentials.js';
+import { EncryptedFileTokenStore, FileTokenStore } from '../lib/token-store.js';
+import {
+  DEFAULT_TENANTS,
+  MOCK_CLIENT_ID,
+  MOCK_CLIENT_SECRET,
+  getMockTokens,
+  startMockXeroServer,
+  type MockXeroServer,
+} from './mock-xero-server.js';
+
+const [ACME, BAKERY] = DEFAULT_TENANTS;
+
+let mock: MockXeroServer;
+let dir: string;
+let store: FileTokenStore;
+
+/**
+ * Save credentials for both mock organisations, as `npm run auth -- --all` would
+ */
+async function saveLogin(tokenSet: any = undefined) {
+  return saveCredentials(
+    tokenSet ?? (await getMockTokens(mock)),
+    { 'acme-corp': ACME, 'sarah-s-bakery': BAKERY },
+    store
+  );
+}
+
+async function connect(profile?: string) {
+  const service = new XeroService({ profile, store, identityUrl: mock.url, apiUrl: mock.url });
+  await service.initialize();
+  return service;
+}
+
+before(async () => {
+  process.env.XERO_CLIENT_ID = MOCK_CLIENT_ID;
+  process.env.XERO_CLIENT_SECRET = MOCK_CLIENT_SECRET;
+  mock = await startMockXeroServer();
+});
+
+after(async () => {
+  await mock.close();
+});
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'xero-client-'));
+  store = new FileTokenStore(path.join(dir, 'credentials.json'));
+  delete process.env.XERO_PROFILE;
+  delete process.env.XERO_TENANT_ID;
+  for (const data of mock.state.tenantData.values()) {
+    data.contacts = [];
+    data.quotes = [];
+    data.invoices = [];
+    data.requestTimes = [];
+  }
+  mock.state.idempotentResponses.clear();
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('initialize', () => {
+  test('fails with a hint when nothing has been saved', async () => {
+    await assert.rejects(connect(), /No saved Xero credentials .* run npm run auth first/);
+  });
+
+  test('selects the default profile, an explicit profile or XERO_PROFILE', async () => {
+    await saveLogin();
+
+    assert.equal((await connect()).tenantId, ACME.tenantId);
+    assert.equal((await connect('sarah-s-bakery')).tenantId, BAKERY.tenantId);
+
+    process.env.XERO_PROFILE = "Sarah's Bakery";
+    assert.equal((await connect()).profileName, 'sarah-s-bakery');
+  });
+
+  test('still honours XERO_TENANT_ID from single-organisation setups', async () => {
+    await saveLogin();
+    process.env.XERO_TENANT_ID = BAKERY.tenantId;
+
+    assert.equal((await connect()).profileName, 'sarah-s-bakery');
+  });
+});
+
+describe('token refresh', () => {
+  test('refreshes an expired access token and persists the rotated refresh token', async () => {
+    const tokens = await getMockTokens(mock);
+    await saveLogin({ ...tokens, expires_at: Math.floor(Date.now() / 1000) - 1 });
+
+    const service = await connect();
+    await service.findOrCreateContact('Acme');
+
+    const saved = await loadCredentials(store);
+    assert.notEqual(saved?.tokenSet.refresh_token, tokens.refresh_token);
+    assert.ok(mock.state.refreshTokens.has(saved?.tokenSet.refresh_token));
+    assert.ok(saved!.tokenSet.expires_at * 1000 > Date.now());
+    assert.deepEqual(Object.keys(saved!.profiles), ['acme-corp', 'sarah-s-bakery']);
+  });
+
+  test('uses a valid access token without refreshing', async () => {
+    const tokens = await getMockTokens(mock);
+    await saveLogin(tokens);
+
+    await connect();
+
+    assert.equal((await loadCredentials(store))?.tokenSet.refresh_token, tokens.refresh_token);
+    assert.ok(mock.state.refreshTokens.has(tokens.refresh_token));
+  });
+
+  test('reads and refreshes through the encrypted token store', async () => {
+    const encrypted = new EncryptedFileTokenStore(path.join(dir, 'credentials.enc.json'), async () => 'passphrase');
+    const tokens = await getMockTokens(mock);
+    await saveCredentials({ ...tokens, expires_at: 0 }, { 'acme-corp': ACME }, encrypted);
+
+    const service = new XeroService({ store: encrypted, identityUrl: mock.url, apiUrl: mock.url });
+    await service.initialize();
+
+    const saved = await loadCredentials(encrypted);
+    assert.notEqual(saved?.tokenSet.refresh_token, tokens.refresh_token);
+    assert.doesNotMatch(await fs.readFile(path.join(dir, 'credentials.enc.json'), 'utf-8'), /refresh_token/);
+  });
+
+  test('asks for re-authorization when the refresh token is rejected', async () => {
+    const tokens = await getMockTokens(mock);
+    mock.state.refreshTokens.delete(tokens.refresh_token);
+    await saveLogin({ ...tokens, expires_at: 0 });
+
+    await assert.rejects(connect(), /Xero rejected the refresh token - run npm run auth/);
+  });
+});
+
+describe('createQuote', () => {
+  test('creates the contact when it does not exist, even without an email', async () => {
+    await saveLogin();
+    const service = await connect();
+
+    const created = await service.createQuote(
+      toQuoteData({
+        contactName: 'Test Customer Ltd',
+        lineItems: [{ description: 'Website Design & Development', quantity: 1, unitAmount: '2,500' }],
+        reference: 'TEST-001',
+        date: '2025-11-06',
+      })
+    );
+
+    assert.equal(created.quoteNumber, 'QU-0001');
+    assert.equal(created.url, `https://go.xero.com/app/quotes/edit/${created.quoteID}`);
+
+    const data = mock.state.tenantData.get(ACME.tenantId)!;
+    assert.equal(data.contacts.length, 1);
+    assert.equal(data.contacts[0].EmailAddress, undefined);
+    assert.equal(data.quotes[0].Contact.ContactID, data.contacts[0].ContactID);
+    assert.equal(data.quotes[0].Total, 2725);
+  });
+
+  test('reuses an existing contact regardless of case', async () => {
+    await saveLogin();
+    const service = await connect();
+    const contactID = await service.findOrCreateContact('Acme Corp', 'ap@acme.test');
+
+    await service.createQuote(
+      toQuoteData({ contactName: 'ACME corp', lineItems: [{ description: 'Consulting', quantity: 10, unitAmount: 150 }] })
+    );
+
+    const data = mock.state.tenantData.get(ACME.tenantId)!;
+    assert.equal(data.contacts.length, 1);
+    assert.equal(data.quotes[0].Contact.ContactID, contactID);
+  });
+
+  test('creates the quote in the selected organisation', async () => {
+    await saveLogin();
+    const service = await connect('sarah-s-bakery');
+
+    await service.createQuote(
+      toQuoteData({ contactName: 'Walk-in', lineItems: [{ description: 'Cake', quantity: 1, unitAmount: 50 }] })
+    );
+
+    assert.equal(mock.state.tenantData.get(BAKERY.tenantId)!.quotes.length, 1);
+    assert.equal(mock.state.tenantData.get(ACME.tenantId)!.quotes.length, 0);
+  });
+});
+
+describe('createQuotes', () => {
+  const batch = () => [
+    toQuoteData({ contactName: 'Acme Corp', reference: 'Q-1', lineItems: [{ description: 'Consulting', quantity: 1, unitAmount: 100 }] }),
+    toQuoteData({
+      contactName: 'Euro Client',
+      reference: 'Q-2',
+      currencyCode: 'EUR',
+      lineItems: [{ description: 'Consulting', quantity: 1, unitAmount: 100 }],
+    }),
+    toQuoteData({ contactName: 'acme corp', reference: 'Q-3', lineItems: [{ description: 'Travel', quantity: 1, unitAmount: 50 }] }),
+  ];
+
+  test('creates several quotes in one request and reports errors per quote', async () => {
+    await saveLogin();
+    const service = await connect();
+    await service.findOrCreateContact('Acme Corp');
+    const requestsBefore = mock.state.requests.length;
+
+    const results = await service.createQuotes(batch());
+
+    assert.deepEqual(
+      results.map((result) => result.created?.quoteNumber ?? result.errors),
+      ['QU-0001', ["The currency code 'EUR' is not enabled for this organisation."], 'QU-0002']
+    );
+    // One contact lookup, one request creating Euro Client and one for the quotes
+    assert.deepEqual(
+      mock.state.requests.slice(requestsBefore).map((request) => `${request.method} ${request.path.split('/').pop()}`),
+      ['GET Contacts', 'PUT Contacts', 'PUT Quotes']
+    );
+    const data = mock.state.tenantData.get(ACME.tenantId)!;
+    assert.deepEqual(
+      data.contacts.map((contact) => contact.Name),
+      ['Acme Corp', 'Euro Client']
+    );
+  });
+
+  test('returns the original quotes when a batch is retried with the same key', async () => {
+    await saveLogin();
+    const service = await connect();
+
+    const first = await service.createQuotes(batch(), 'batch-1');
+    const second = await service.createQuotes(batch(), 'batch-1');
+
+    assert.deepEqual(second, first);
+    assert.equal(mock.state.tenantData.get(ACME.tenantId)!.quotes.length, 2);
+  });
+
+  test('paces every request through onRequest', async () => {
+    await saveLogin();
+    let calls = 0;
+    const service = new XeroService({
+      store,
+      identityUrl: mock.url,
+      apiUrl: mock.url,
+      onRequest: async () => {
+        calls++;
+      },
+    });
+    await service.initialize();
+
+    await service.getReferenceData();
+    await service.createQuotes(batch());
+
+    assert.equal(calls, 6 + 3);
+  });
+});
+
+describe('line item details', () => {
+  test('loads the reference data once', async () => {
+    await saveLogin();
+    const service = await connect();
+    const requestsBefore = mock.state.requests.length;
+
+    const reference = await service.getReferenceData();
+    await service.getReferenceData();
+
+    assert.deepEqual(reference.items.map((item) => item.code), ['CONSULT', 'HOSTING']);
+    assert.ok(reference.accounts.some((account) => account.code === '210'));
+    assert.ok(reference.taxRates.some((rate) => rate.taxType === 'ZERORATEDOUTPUT'));
+    assert.deepEqual(
+      reference.trackingCategories.map((category) => [category.name, category.options?.map((option) => option.name)]),
+      [
+        ['Region', ['North', 'South']],
+        ['Project', ['Website', 'Retainer']],
+      ]
+    );
+    assert.deepEqual(reference.currencies.map((currency) => String(currency.code)), ['SGD', 'USD', 'AUD']);
+    assert.equal(reference.baseCurrency, 'SGD');
+    assert.equal(mock.state.requests.length - requestsBefore, 6);
+  });
+
+  test('retries reference data requests that Xero rate-limits', async () => {
+    await saveLogin();
+    const service = await connect();
+    mock.failNext(429);
+
+    const reference = await service.getReferenceData();
+
+    assert.equal(reference.baseCurrency, 'SGD');
+  });
+
+  test('asks to re-authorize when the token lacks the settings scope', async () => {
+    await saveLogin(await getMockTokens(mock, 'offline_access accounting.transactions accounting.contacts'));
+    const service = await connect();
+
+    await assert.rejects(service.getReferenceData(), /run npm run auth again/);
+  });
+
+  test('creates a quote with item codes, zero-rated exports, discounts and tracking', async () => {
+    await saveLogin();
+    const service = await connect();
+    const reference = await service.getReferenceData();
+    const input = {
+      contactName: 'Overseas Buyer',
+      date: '2025-11-06',
+      lineItems: [
+        { itemCode: 'consult', quantity: 10, discountRate: '10%', tracking: [{ category: 'region', option: 'north' }] },
+        { description: 'Export shipment', quantity: 1, unitAmount: 1000, accountCode: '210' },
+      ],
+    };
+
+    assert.deepEqual(validateQuoteData(input, reference).errors, []);
+    await service.createQuote(toQuoteData(input, reference));
+
+    const [quote] = mock.state.tenantData.get(ACME.tenantId)!.quotes;
+    assert.deepEqual(
+      quote.LineItems.map((line: any) => [line.Description, line.UnitAmount, line.AccountCode, line.TaxType, line.LineAmount, line.TaxAmount]),
+      [
+        ['Consulting (per hour)', 150, '200', 'OUTPUT', 1350, 121.5],
+        ['Export shipment', 1000, '210', 'ZERORATEDOUTPUT', 1000, 0],
+      ]
+    );
+    assert.deepEqual(quote.LineItems[0].Tracking, [{ Name: 'Region', Option: 'North' }]);
+    assert.equal(quote.Total, 2471.5);
+    const summary = formatQuoteSummary(input, reference);
+    assert.match(summary, /Item CONSULT · Region: North/);
+    assert.match(summary, /Total:\s+SGD 2,471\.50 \(including tax\)/);
+  });
+});
+
+describe('currencies', () => {
+  test('creates a tax-inclusive quote in an enabled foreign currency', async () => {
+    await saveLogin();
+    const service = await connect();
+    const reference = await service.getReferenceData();
+    const input = {
+      contactName: 'US Client Inc',
+      date: '2025-11-06',
+      currencyCode: 'usd',
+      lineAmountTypes: 'Inclusive' as const,
+      lineItems: [{ description: 'Consulting', quantity: 1, unitAmount: 1090, taxType: 'OUTPUT' }],
+    };
+
+    assert.deepEqual(validateQuoteData(input, reference).errors, []);
+    const created = await service.createQuote(toQuoteData(input, reference));
+
+    const [quote] = mock.state.tenantData.get(ACME.tenantId)!.quotes;
+    assert.equal(quote.CurrencyCode, 'USD');
+    assert.equal(quote.LineAmountTypes, 'INCLUSIVE');
+    assert.deepEqual([quote.SubTotal, quote.TotalTax, quote.Total], [1000, 90, 1090]);
+
+    const fetched = await service.getQuote(created.quoteNumber);
+    assert.equal(fetched.currencyCode, 'USD');
+    assert.equal(fetched.lineAmountTypes, 'Inclusive');
+  });
+
+  test('rejects a currency the organisation has not enabled', async () => {
+    await saveLogin();
+    const service = await connect();
+    const input = { contactName: 'Euro Client', lineItems: [{ description: 'Consulting', quantity: 1, unitAmount: 100 }], currencyCode: 'EUR' };
+
+    assert.deepEqual(validateQuoteData(input, await service.getReferenceData()).errors, [
+      'Currency EUR is not enabled in Xero - use one of SGD, USD, AUD',
+    ]);
+  });
+});
+
+describe('invoices', () => {
+  async function createAcmeQuote(service: XeroService) {
+    const contactID = await service.findOrCreateContact('Acme Corp');
+    return service.createQuote({
+      contact: { contactID },
+      date: '2025-11-06',
+      reference: 'PROJECT-2025-001',
+      lineItems: [
+        { description: 'Consulting', quantity: 10, unitAmount: 150, tracking: [{ name: 'Region', option: 'North' }] },
+        { description: 'Travel', quantity: 5, unitAmount: 75 },
+      ],
+    });
+  }
+
+  test('creates a draft sales invoice with its due date', async () => {
+    await saveLogin();
+    const service = await connect();
+
+    const created = await service.createInvoice(
+      toInvoiceData({
+        contactName: 'Acme Corp',
+        lineItems: [{ description: 'Consulting', quantity: 10, unitAmount: 150 }],
+        date: '2025-11-06',
+        paymentTerms: 'Net 30',
+      })
+    );
+
+    assert.equal(created.invoiceNumber, 'INV-0001');
+    const [invoice] = mock.state.tenantData.get(ACME.tenantId)!.invoices;
+    assert.equal(invoice.Type, 'ACCREC');
+    assert.equal(invoice.Status, 'DRAFT');
+    assert.equal(invoice.DueDateString, '2025-12-06T00:00:00');
+  });
+
+  test('converts a quote by number, copying contact, lines, reference and tracking', async () => {
+    await saveLogin();
+    const service = await connect();
+    const quote = await createAcmeQuote(service);
+
+    await service.convertQuoteToInvoice(quote.quoteNumber, { date: '2025-11-10', paymentTerms: '20th of following month' });
+
+    const data = mock.state.tenantData.get(ACME.tenantId)!;
+    const [invoice] = data.invoices;
+    assert.equal(invoice.Contact.ContactID, data.quotes[0].Contact.ContactID);
+    assert.equal(invoice.Reference, 'PROJECT-2025-001');
+    assert.equal(invoice.DueDateString, '2025-12-20T00:00:00');
+    assert.equal(invoice.Total, data.quotes[0].Total);
+    assert.deepEqual(
+      invoice.LineItems.map((line: any) => [line.Description, line.Quantity, line.UnitAmount]),
+      [
+        ['Consulting', 10, 150],
+        ['Travel', 5, 75],
+      ]
+    );
+    assert.deepEqual(invoice.LineItems[0].Tracking, [{ Name: 'Region', Option: 'North' }]);
+  });
+
+  test('does not create a second invoice when a conversion is retried with its key', async () => {
+    await saveLogin();
+    const service = await connect();
+    const quote = await createAcmeQuote(service);
+
+    const first = await service.convertQuoteToInvoice(quote.quoteID, { idempotencyKey: 'convert-1' });
+    const second = await service.convertQuoteToInvoice(quote.quoteID, { idempotencyKey: 'convert-1' });
+
+    assert.equal(second.invoiceID, first.invoiceID);
+    assert.equal(mock.state.tenantData.get(ACME.tenantId)!.invoices.length, 1);
+  });
+
+  test('converts again with other options or after the draft is deleted', async () => {
+    await saveLogin();
+    const service = await connect();
+    const quote = await createAcmeQuote(service);
+
+    await service.convertQuoteToInvoice(quote.quoteID, { date: '2025-11-10', paymentTerms: 'Net 30' });
+    await service.convertQuoteToInvoice(quote.quoteID, { date: '2025-11-10', paymentTerms: 'Net 14' });
+    const data = mock.state.tenantData.get(ACME.tenantId)!;
+    data.invoices = [];
+    await service.convertQuoteToInvoice(quote.quoteID, { date: '2025-11-10', paymentTerms: 'Net 14' });
+
+    assert.deepEqual(
+      data.invoices.map((invoice) => invoice.DueDateString),
+      ['2025-11-24T00:00:00']
+    );
+    assert.equal(mock.state.idempotentResponses.size, 3);
+  });
+
+  test('refuses declined quotes and unknown payment terms', async () => {
+    await saveLogin();
+    const service = await connect();
+    const quote = await createAcmeQuote(service);
+    mock.state.tenantData.get(ACME.tenantId)!.quotes[0].Status = 'DECLINED';
+
+    await assert.rejects(service.convertQuoteToInvoice(quote.quoteID), /is DECLINED and can't be converted/);
+    await assert.rejects(service.convertQuoteToInvoice(quote.quoteID, { paymentTerms: 'soon' }), /not recognised/);
+    await assert.rejects(service.convertQuoteToInvoice('QU-9999'), /Quote QU-9999 was not found in Acme Corp/);
+  });
+});
+
+describe('quote lifecycle', () => {
+  async function createQuotes(service: XeroService) {
+    const acme = await service.createQuote(
+      toQuoteData({
+        contactName: 'Acme Corp',
+        contactEmail: 'ap@acme.test',
+        reference: 'PROJECT-2025-001',
+        date: '2025-11-06',
+        expiryDate: '2025-12-06',
+        lineItems: [
+          { description: 'Consulting', quantity: 10, unitAmount: 150 },
+          { description: 'Travel', quantity: 2, unitAmount: 75 },
+        ],
+      })
+    );
+    const globex = await service.createQuote(
+      toQuoteData({
+        contactName: 'Globex',
+        reference: 'RETAINER',
+        date: '2025-10-01',
+        lineItems: [{ description: 'Support', quantity: 1, unitAmount: 500 }],
+      })
+    );
+    return { acme, globex };
+  }
+
+  test('lists quotes by contact, status, date range and reference', async () => {
+    await saveLogin();
+    const service = await connect();
+    const { acme, globex } = await createQuotes(service);
+
+    const numbers = async (filters: Parameters<XeroService['listQuotes']>[0]) =>
+      (await service.listQuotes(filters)).map((quote) => quote.quoteNumber).sort();
+
+    assert.deepEqual(await numbers({}), [acme.quoteNumber, globex.quoteNumber]);
+    assert.deepEqual(await numbers({ contact: 'acme corp' }), [acme.quoteNumber]);
+    assert.deepEqual(await numbers({ contact: 'Nobody' }), []);
+    assert.deepEqual(await numbers({ dateFrom: '2025-11-01', dateTo: '2025-11-30' }), [acme.quoteNumber]);
+    assert.deepEqual(await numbers({ reference: 'project-2025' }), [acme.quoteNumber]);
+    assert.deepEqual(await numbers({ status: 'SENT' }), []);
+
+    const [listing] = await service.listQuotes({ reference: 'RETAINER' });
+    assert.deepEqual(listing, {
+      quoteID: globex.quoteID,
+      quoteNumber: globex.quoteNumber,
+      status: 'DRAFT',
+      contactName: 'Globex',
+      reference: 'RETAINER',
+      date: '2025-10-01',
+      expiryDate: undefined,
+      total: 545,
+      url: globex.url,
+    });
+  });
+
+  test('reads every page of quotes', async () => {
+    await saveLogin();
+    const service = await connect();
+    const { acme } = await createQuotes(service);
+    const data = mock.state.tenantData.get(ACME.tenantId)!;
+    for (let i = 0; i < 120; i++) {
+      data.quotes.push({ ...data.quotes[0], QuoteID: `copy-${i}`, QuoteNumber: `QU-COPY-${i}` });
+    }
+
+    assert.equal((await service.listQuotes()).length, 122);
+    assert.equal((await service.listQuotes({ contact: 'Acme Corp' })).length, 121);
+    assert.ok((await service.listQuotes()).some((quote) => quote.quoteNumber === acme.quoteNumber));
+  });
+
+  test('fetches a quote back in the parsed input shape', async () => {
+    await saveLogin();
+    const service = await connect();
+    const { acme } = await createQuotes(service);
+
+    const quote = await service.getQuote(acme.quoteNumber);
+
+    assert.equal(quote.quoteID, acme.quoteID);
+    assert.equal(quote.status, 'DRAFT');
+    assert.equal(quote.contactName, 'Acme Corp');
+    assert.equal(quote.contactEmail, 'ap@acme.test');
+    assert.equal(quote.date, '2025-11-06');
+    assert.equal(quote.expiryDate, '2025-12-06');
+    assert.deepEqual(quote.lineItems, [
+      { description: 'Consulting', quantity: 10, unitAmount: 150, accountCode: '200', taxType: 'OUTPUT' },
+      { description: 'Travel', quantity: 2, unitAmount: 75, accountCode: '200', taxType: 'OUTPUT' },
+    ]);
+    assert.equal(quote.total, 1798.5);
+  });
+
+  test('updates the line items of a draft quote', async () => {
+    await saveLogin();
+    const service = await connect();
+    const { acme } = await createQuotes(service);
+
+    const quote = await service.getQuote(acme.quoteNumber);
+    quote.lineItems[1] = { ...quote.lineItems[1], quantity: 3 };
+    const updated = await service.updateQuoteLineItems(acme.quoteNumber, quote.lineItems);
+
+    assert.deepEqual(
+      updated.lineItems.map((line) => line.quantity),
+      [10, 3]
+    );
+    assert.equal(updated.reference, 'PROJECT-2025-001');
+    assert.equal(mock.state.tenantData.get(ACME.tenantId)!.quotes[0].SubTotal, 1725);
+
+    await assert.rejects(
+      service.updateQuoteLineItems(acme.quoteNumber, [{ description: 'Travel', quantity: 'three', unitAmount: 75 }]),
+      /Line 1: quantity "three" must be a positive number/
+    );
+  });
+
+  test('moves a quote through sent to accepted and refuses changes Xero would reject', async () => {
+    await saveLogin();
+    const service = await connect();
+    const { acme, globex } = await createQuotes(service);
+
+    await assert.rejects(service.updateQuoteStatus(acme.quoteNumber, 'ACCEPTED'), /A quote that is DRAFT can't be marked ACCEPTED - it can only move to SENT or DELETED/);
+
+    assert.equal((await service.updateQuoteStatus(acme.quoteNumber, 'SENT')).status, 'SENT');
+    assert.equal((await service.updateQuoteStatus(acme.quoteNumber, 'ACCEPTED')).status, 'ACCEPTED');
+    assert.equal(mock.state.tenantData.get(ACME.tenantId)!.quotes[0].Status, 'ACCEPTED');
+
+    await assert.rejects(
+      service.updateQuoteLineItems(acme.quoteNumber, [{ description: 'Consulting', quantity: 1, unitAmount: 150 }]),
+      /Quote QU-0001 is ACCEPTED - only draft quotes can have their line items changed/
+    );
+
+    await service.updateQuoteStatus(globex.quoteID, 'SENT');
+    await service.updateQuoteStatus(globex.quoteID, 'DECLINED');
+    assert.deepEqual(
+      (await service.listQuotes({ status: 'DECLINED' })).map((quote) => quote.quoteNumber),
+      [globex.quoteNumber]
+    );
+  });
+});